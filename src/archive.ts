@@ -0,0 +1,252 @@
+/**
+ * Minimal zip and tar (ustar) writers, for bundling the generated files into a single archive
+ */
+import {deflateRawSync} from 'node:zlib'
+import type {ArchiveFormat, ArchiveOptions} from './types.js'
+
+/**
+ * The archive formats that can be written
+ *
+ * @internal
+ */
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar']
+
+/**
+ * MIME types of the archive formats
+ *
+ * @internal
+ */
+export const ARCHIVE_MIME_TYPES: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  tar: 'application/x-tar',
+}
+
+/**
+ * Modification time of all archive entries. A fixed date keeps archives reproducible, and
+ * 1980-01-01 is the earliest date zip files can represent.
+ */
+const ARCHIVE_DATE = new Date(Date.UTC(1980, 0, 1))
+
+const ZIP_LOCAL_HEADER = 0x04034b50
+const ZIP_CENTRAL_HEADER = 0x02014b50
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP_VERSION = 20
+const ZIP_UTF8_FLAG = 0x0800
+const ZIP_METHOD_STORE = 0
+const ZIP_METHOD_DEFLATE = 8
+const TAR_BLOCK_SIZE = 512
+
+/**
+ * A file to place in an archive
+ *
+ * @internal
+ */
+export interface ArchiveEntry {
+  /**
+   * Path of the file within the archive
+   */
+  name: string
+
+  /**
+   * Contents of the file
+   */
+  buffer: Buffer
+}
+
+/**
+ * Creates an archive of the given format containing the given files
+ *
+ * @param format - The archive format
+ * @param entries - The files to place in the archive
+ * @returns A buffer containing the archive
+ * @internal
+ */
+export function createArchive(format: ArchiveFormat, entries: ArchiveEntry[]): Buffer {
+  return format === 'tar' ? createTar(entries) : createZip(entries)
+}
+
+/**
+ * Archive options, with defaults applied
+ *
+ * @internal
+ */
+export interface ResolvedArchive {
+  format: ArchiveFormat
+  file?: string
+}
+
+/**
+ * Validates the given archive options. The format defaults to the one matching the extension
+ * of the archive file, if any, and otherwise to zip.
+ *
+ * @param options - The options to validate
+ * @returns The validated options, with defaults applied
+ * @internal
+ */
+export function validateArchiveOptions(options: unknown): ResolvedArchive {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new Error('Archive options must be an object')
+  }
+
+  const {format, file, ...rest}: ArchiveOptions = options
+  const [unknown] = Object.keys(rest)
+  if (unknown) {
+    throw new Error(`Unknown archive option "${unknown}"`)
+  }
+
+  if (typeof file !== 'undefined' && (typeof file !== 'string' || file.trim() === '')) {
+    throw new Error('Archive file must be a non-empty string')
+  }
+
+  const resolved = format ?? (file ? getArchiveFormat(file) : undefined) ?? 'zip'
+  if (!ARCHIVE_FORMATS.includes(resolved)) {
+    const formats = ARCHIVE_FORMATS.map((name) => `"${name}"`)
+    throw new Error(`Invalid archive format "${resolved}" - must be one of ${formats.join(', ')}`)
+  }
+
+  return file ? {format: resolved, file} : {format: resolved}
+}
+
+/**
+ * Creates a zip archive. Files are deflated, unless that does not make them smaller (as is
+ * the case for PNGs, which are already compressed).
+ */
+function createZip(entries: ArchiveEntry[]): Buffer {
+  const {time, date} = getDosDateTime(ARCHIVE_DATE)
+  const localParts: Buffer[] = []
+  const centralParts: Buffer[] = []
+  let offset = 0
+
+  for (const {name, buffer} of entries) {
+    const fileName = Buffer.from(name, 'utf8')
+    const deflated = deflateRawSync(buffer)
+    const method = deflated.length < buffer.length ? ZIP_METHOD_DEFLATE : ZIP_METHOD_STORE
+    const data = method === ZIP_METHOD_DEFLATE ? deflated : buffer
+    const crc = crc32(buffer)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(ZIP_LOCAL_HEADER, 0)
+    local.writeUInt16LE(ZIP_VERSION, 4)
+    local.writeUInt16LE(ZIP_UTF8_FLAG, 6)
+    local.writeUInt16LE(method, 8)
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(buffer.length, 22)
+    local.writeUInt16LE(fileName.length, 26)
+    local.writeUInt16LE(0, 28)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(ZIP_CENTRAL_HEADER, 0)
+    central.writeUInt16LE(ZIP_VERSION, 4)
+    central.writeUInt16LE(ZIP_VERSION, 6)
+    central.writeUInt16LE(ZIP_UTF8_FLAG, 8)
+    central.writeUInt16LE(method, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(buffer.length, 24)
+    central.writeUInt16LE(fileName.length, 28)
+    central.writeUInt32LE(offset, 42)
+
+    localParts.push(local, fileName, data)
+    centralParts.push(central, fileName)
+    offset += local.length + fileName.length + data.length
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(ZIP_END_OF_CENTRAL_DIRECTORY, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(centralSize, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...localParts, ...centralParts, end])
+}
+
+/**
+ * Creates an uncompressed tar archive, in the POSIX ustar format
+ */
+function createTar(entries: ArchiveEntry[]): Buffer {
+  const mtime = Math.floor(ARCHIVE_DATE.getTime() / 1000)
+  const parts: Buffer[] = []
+
+  for (const {name, buffer} of entries) {
+    if (Buffer.byteLength(name) > 100) {
+      throw new Error(`File name "${name}" is too long for a tar archive`)
+    }
+
+    const header = Buffer.alloc(TAR_BLOCK_SIZE)
+    header.write(name, 0, 100, 'utf8')
+    header.write(toOctal(0o644, 8), 100)
+    header.write(toOctal(0, 8), 108)
+    header.write(toOctal(0, 8), 116)
+    header.write(toOctal(buffer.length, 12), 124)
+    header.write(toOctal(mtime, 12), 136)
+    // The checksum is calculated with the checksum field filled with spaces
+    header.write(' '.repeat(8), 148)
+    header.write('0', 156)
+    header.write('ustar\0', 257)
+    header.write('00', 263)
+
+    const checksum = header.reduce((sum, byte) => sum + byte, 0)
+    header.write(`${toOctal(checksum, 7)} `, 148)
+
+    const padding = (TAR_BLOCK_SIZE - (buffer.length % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE
+    parts.push(header, buffer, Buffer.alloc(padding))
+  }
+
+  // Archives end with two empty blocks
+  parts.push(Buffer.alloc(TAR_BLOCK_SIZE * 2))
+  return Buffer.concat(parts)
+}
+
+/**
+ * Gets the archive format matching the extension of the given file name, if any
+ */
+function getArchiveFormat(fileName: string): ArchiveFormat | undefined {
+  const extension = /\.(zip|tar)$/i.exec(fileName)?.[1]?.toLowerCase()
+  return ARCHIVE_FORMATS.find((format) => format === extension)
+}
+
+/**
+ * Formats the given number as a zero-padded, NUL-terminated octal string for tar headers
+ */
+function toOctal(value: number, length: number): string {
+  return `${value.toString(8).padStart(length - 1, '0')}\0`
+}
+
+/**
+ * Converts the given date to the MS-DOS time and date fields used by zip files
+ */
+function getDosDateTime(value: Date): {time: number; date: number} {
+  const time =
+    (value.getUTCHours() << 11) | (value.getUTCMinutes() << 5) | (value.getUTCSeconds() >> 1)
+  const date =
+    ((value.getUTCFullYear() - 1980) << 9) | ((value.getUTCMonth() + 1) << 5) | value.getUTCDate()
+  return {time, date}
+}
+
+let crcTable: Uint32Array | undefined
+
+/**
+ * Calculates the CRC-32 checksum of the given data, as used by zip files
+ */
+function crc32(data: Buffer): number {
+  crcTable ??= Uint32Array.from({length: 256}, (_, index) => {
+    let crc = index
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1
+    }
+    return crc >>> 0
+  })
+
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = (crcTable[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
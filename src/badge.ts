@@ -0,0 +1,152 @@
+import sharp from 'sharp'
+import {isValidRasterColor} from './colors.js'
+import {escapeXml, getViewBox, parseSvg, serializeSvg} from './svg.js'
+import type {BadgeOptions, FaviconFile} from './types.js'
+
+/**
+ * Smallest icon size (in pixels) that badge text is drawn at - below it, the text would not
+ * be legible, so a dot is drawn instead
+ *
+ * @internal
+ */
+export const BADGE_TEXT_MIN_SIZE = 48
+
+const DEFAULT_BADGE_COLOR = '#e11'
+const DEFAULT_BADGE_TEXT_COLOR = '#fff'
+
+/**
+ * Badge options, with defaults applied
+ *
+ * @internal
+ */
+export interface ResolvedBadge {
+  text?: string
+  color: string
+  textColor: string
+}
+
+/**
+ * Validates the given badge options, throwing on unknown or invalid options
+ *
+ * @param options - The options to validate
+ * @returns The validated options, with defaults applied
+ * @internal
+ */
+export function validateBadgeOptions(options: unknown): ResolvedBadge {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new Error('Badge options must be an object')
+  }
+
+  const {
+    text,
+    color = DEFAULT_BADGE_COLOR,
+    textColor = DEFAULT_BADGE_TEXT_COLOR,
+    ...rest
+  }: BadgeOptions = options
+  const [unknown] = Object.keys(rest)
+  if (unknown) {
+    throw new Error(`Unknown badge option "${unknown}"`)
+  }
+
+  if (typeof text !== 'undefined' && (typeof text !== 'string' || text.trim() === '')) {
+    throw new Error('Badge text must be a non-empty string')
+  }
+
+  for (const [label, value] of [
+    ['Badge color', color],
+    ['Badge text color', textColor],
+  ]) {
+    if (!isValidRasterColor(value)) {
+      throw new Error(
+        `${label} must be a named, hex, rgb(), hsl() or hwb() CSS color, got "${value}"`,
+      )
+    }
+  }
+
+  return typeof text === 'undefined' ? {color, textColor} : {text: text.trim(), color, textColor}
+}
+
+/**
+ * Draws the badge onto the given rendered PNG or WebP image
+ *
+ * @param file - The rendered image
+ * @param badge - The badge to draw
+ * @returns The image with the badge drawn onto it
+ * @internal
+ */
+export async function applyBadge(file: FaviconFile, badge: ResolvedBadge): Promise<FaviconFile> {
+  const {width = 0, height = 0} = file
+  const overlay = Buffer.from(getBadgeSvg(badge, width, height))
+  const image = sharp(file.buffer).composite([{input: overlay}])
+  const buffer = await (file.mimeType === 'image/webp' ? image.webp() : image.png()).toBuffer()
+  return {...file, buffer}
+}
+
+/**
+ * Creates an SVG image of the badge alone, to draw onto a raster image of the given size
+ *
+ * @param badge - The badge to draw
+ * @param width - Width of the image, in pixels
+ * @param height - Height of the image, in pixels
+ * @returns The SVG image
+ * @internal
+ */
+export function getBadgeSvg(badge: ResolvedBadge, width: number, height: number): string {
+  const legible = Math.min(width, height) >= BADGE_TEXT_MIN_SIZE
+  const elements = getBadgeElements(legible ? badge : {...badge, text: undefined}, {
+    x: 0,
+    y: 0,
+    width,
+    height,
+  })
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${elements}</svg>`
+}
+
+/**
+ * Adds the badge to the given SVG, as vector elements on top of the artwork. SVG icons are
+ * mostly shown at tab size, so a dot is drawn rather than the text.
+ *
+ * @param input - The SVG to add the badge to
+ * @param badge - The badge to draw
+ * @returns The SVG with the badge
+ * @internal
+ */
+export function addBadgeToSvg(input: string | Buffer, badge: ResolvedBadge): string {
+  const doc = parseSvg(input, 'source SVG')
+  const [x = 0, y = 0, width = 0, height = 0] = getViewBox(doc.root, 'source SVG')
+    .split(/[\s,]+/)
+    .map(Number)
+
+  const elements = getBadgeElements({...badge, text: undefined}, {x, y, width, height})
+  const badgeDoc = parseSvg(`<svg><g class="favicon-badge">${elements}</g></svg>`, 'badge')
+  doc.root.children.push(...badgeDoc.root.children)
+  return serializeSvg(doc)
+}
+
+/**
+ * Gets the markup of the badge for the given area: a bar along the bottom edge with the text,
+ * or a dot in the bottom right corner if there is no text
+ */
+function getBadgeElements(
+  badge: ResolvedBadge,
+  area: {x: number; y: number; width: number; height: number},
+): string {
+  const {x, y, width, height} = area
+  const size = Math.min(width, height)
+  const round = (value: number) => Number(value.toFixed(2))
+
+  if (badge.text) {
+    const barHeight = size * 0.36
+    // Bold sans-serif characters are roughly 0.62em wide - scale down long texts to fit
+    const fontSize = Math.min(barHeight * 0.7, (width * 0.9) / (badge.text.length * 0.62))
+    const text = escapeXml(badge.text)
+    return [
+      `<rect x="${round(x)}" y="${round(y + height - barHeight)}" width="${round(width)}" height="${round(barHeight)}" fill="${badge.color}"/>`,
+      `<text x="${round(x + width / 2)}" y="${round(y + height - barHeight / 2)}" font-family="Arial, Helvetica, sans-serif" font-weight="700" font-size="${round(fontSize)}" text-anchor="middle" dominant-baseline="central" fill="${badge.textColor}">${text}</text>`,
+    ].join('')
+  }
+
+  const radius = size * 0.2
+  const inset = size * 0.04
+  return `<circle cx="${round(x + width - radius - inset)}" cy="${round(y + height - radius - inset)}" r="${round(radius)}" fill="${badge.color}" stroke="${badge.textColor}" stroke-width="${round(inset)}"/>`
+}
@@ -0,0 +1,74 @@
+import {escapeXml} from './svg.js'
+
+/**
+ * A tile for pinned sites on Windows
+ *
+ * @internal
+ */
+export interface WindowsTile {
+  /**
+   * File name of the tile image, before any content hash is added
+   */
+  name: string
+
+  /**
+   * Name of the element referencing the tile in `browserconfig.xml`
+   */
+  element: string
+
+  /**
+   * Width of the tile, in pixels
+   */
+  width: number
+
+  /**
+   * Height of the tile, in pixels
+   */
+  height: number
+}
+
+/**
+ * The tiles generated when Windows tiles are enabled, in the order they are emitted
+ *
+ * @internal
+ */
+export const WINDOWS_TILES: WindowsTile[] = [
+  {name: 'mstile-70x70.png', element: 'square70x70logo', width: 70, height: 70},
+  {name: 'mstile-150x150.png', element: 'square150x150logo', width: 150, height: 150},
+  {name: 'mstile-310x150.png', element: 'wide310x150logo', width: 310, height: 150},
+  {name: 'mstile-310x310.png', element: 'square310x310logo', width: 310, height: 310},
+]
+
+/**
+ * Generates a `browserconfig.xml` file, which tells Windows which images and background
+ * color to use for the tile when the site is pinned to the start menu.
+ *
+ * @param basePath - The base path where the tiles are located
+ * @param tiles - The tiles to reference, along with the (possibly hashed) names of their files
+ * @param tileColor - Background color of the tile, as a CSS color
+ * @returns The XML document
+ * @internal
+ */
+export function generateBrowserConfig(
+  basePath: string,
+  tiles: Array<{element: string; fileName: string}>,
+  tileColor: string,
+): string {
+  const base = basePath.endsWith('/') ? basePath.replace(/\/+$/, '') : basePath
+  const logos = tiles.map(
+    ({element, fileName}) => `      <${element} src="${escapeXml(`${base}/${fileName}`)}"/>`,
+  )
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<browserconfig>',
+    '  <msapplication>',
+    '    <tile>',
+    ...logos,
+    `      <TileColor>${escapeXml(tileColor)}</TileColor>`,
+    '    </tile>',
+    '  </msapplication>',
+    '</browserconfig>',
+    '',
+  ].join('\n')
+}
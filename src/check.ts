@@ -0,0 +1,323 @@
+import {readdir, readFile} from 'node:fs/promises'
+import {extname, join as joinPath, resolve as resolvePath} from 'node:path'
+import sharp from 'sharp'
+import {WINDOWS_TILES} from './browserconfig.js'
+import {DEFAULT_ICO_SIZES, validateIcoSizes} from './favicon.js'
+import {getHeadLinks} from './head.js'
+import {decodeIco} from './ico.js'
+import {findFaviconLinks} from './inject.js'
+import {PRESETS, resolveIcons, validatePreset, type ResolvedIcon} from './presets.js'
+import {parseSvg} from './svg.js'
+import type {CheckFaviconsOptions, CheckIssue, CheckResult} from './types.js'
+
+/**
+ * A file that is expected in a favicon set, along with a function that verifies its content
+ */
+interface ExpectedFile {
+  name: string
+  verify: (buffer: Buffer) => Promise<string | undefined>
+}
+
+/**
+ * Checks that an existing set of favicons is complete and correct: that every file
+ * {@link createFavicon} would emit exists (with or without a content hash in its name), that
+ * the images have the dimensions their names imply, that the web manifest is valid and points
+ * at existing files, and (optionally) that the `<link>` tags of an HTML file match the set.
+ *
+ * @param options - Options for the check
+ * @returns The result of the check, including any issues found
+ * @public
+ */
+export async function checkFavicons(options: CheckFaviconsOptions): Promise<CheckResult> {
+  if (!options || typeof options.outputDir !== 'string') {
+    throw new Error('Output directory must be specified')
+  }
+
+  const {outputDir, basePath = '/', manifest = true, svg = true, maskIcon = false, html} = options
+  const icoSizes = validateIcoSizes(options.icoSizes ?? DEFAULT_ICO_SIZES)
+  const presetName = validatePreset(options.preset ?? 'pwa')
+  const preset = PRESETS[presetName]
+  const icons = resolveIcons(presetName, options.icons)
+  const windowsTiles = options.windowsTiles ?? preset.windowsTiles
+
+  let entries: string[]
+  try {
+    entries = await readdir(outputDir)
+  } catch (err) {
+    throw new Error(`Could not read output directory "${outputDir}": ${getMessage(err)}`)
+  }
+
+  const issues: CheckIssue[] = []
+  const fileNames: Record<string, string> = {}
+  for (const expected of getExpectedFiles({
+    manifest,
+    maskable: preset.maskable,
+    svg,
+    maskIcon,
+    windowsTiles,
+    icoSizes,
+    icons,
+  })) {
+    const name = findFileName(entries, expected.name)
+    if (!name) {
+      issues.push({file: expected.name, message: 'File is missing'})
+      continue
+    }
+
+    fileNames[expected.name] = name
+    let problem: string | undefined
+    try {
+      problem = await expected.verify(await readFile(joinPath(outputDir, name)))
+    } catch (err) {
+      problem = getMessage(err)
+    }
+
+    if (problem) {
+      issues.push({file: name, message: problem})
+    }
+  }
+
+  const manifestName = fileNames['manifest.webmanifest']
+  if (manifestName) {
+    const content = await readFile(joinPath(outputDir, manifestName), 'utf8')
+    for (const message of checkWebManifest(content, basePath, entries)) {
+      issues.push({file: manifestName, message})
+    }
+  }
+
+  const browserConfigName = fileNames['browserconfig.xml']
+  if (browserConfigName) {
+    const content = await readFile(joinPath(outputDir, browserConfigName), 'utf8')
+    for (const message of checkBrowserConfig(content, basePath, entries)) {
+      issues.push({file: browserConfigName, message})
+    }
+  }
+
+  if (html) {
+    for (const message of await checkHtmlLinks(html, basePath, fileNames, icons)) {
+      issues.push({file: html, message})
+    }
+  }
+
+  return {ok: issues.length === 0, issues, files: Object.values(fileNames)}
+}
+
+/**
+ * Gets the files expected in a favicon set generated with the given options
+ */
+function getExpectedFiles(options: {
+  manifest: boolean
+  maskable: boolean
+  svg: boolean
+  maskIcon: boolean
+  windowsTiles: boolean
+  icoSizes: number[]
+  icons: ResolvedIcon[]
+}): ExpectedFile[] {
+  const png = (name: string, width: number, height = width): ExpectedFile => ({
+    name,
+    verify: (buffer) => verifyImage(buffer, 'png', width, height),
+  })
+
+  const files = [
+    png('favicon-512.png', 512),
+    png('favicon-192.png', 192),
+    png('apple-touch-icon.png', 180),
+    {name: 'favicon.ico', verify: (buffer: Buffer) => verifyIco(buffer, options.icoSizes)},
+    ...options.icons.map(({name, size, format}) => ({
+      name,
+      verify: (buffer: Buffer) => verifyImage(buffer, format, size, size),
+    })),
+  ]
+
+  if (options.manifest && options.maskable) {
+    files.push(png('maskable-192.png', 192), png('maskable-512.png', 512))
+  }
+
+  if (options.manifest) {
+    // Content is checked separately, as it references other files
+    files.push({name: 'manifest.webmanifest', verify: async () => undefined})
+  }
+
+  if (options.svg) {
+    files.push({name: 'favicon.svg', verify: verifySvg})
+  }
+
+  if (options.maskIcon) {
+    files.push({name: 'safari-pinned-tab.svg', verify: verifySvg})
+  }
+
+  if (options.windowsTiles) {
+    files.push(
+      ...WINDOWS_TILES.map(({name, width, height}) => png(name, width, height)),
+      // Content is checked separately, as it references other files
+      {name: 'browserconfig.xml', verify: async () => undefined},
+    )
+  }
+
+  return files
+}
+
+/**
+ * Finds the name of the given file in the directory listing, allowing for a content hash in
+ * the name (eg `favicon-512.3fa2c1d.png` for `favicon-512.png`)
+ */
+function findFileName(entries: string[], name: string): string | undefined {
+  if (entries.includes(name)) {
+    return name
+  }
+
+  const ext = extname(name)
+  const stem = name.slice(0, name.length - ext.length)
+  return entries.find(
+    (entry) =>
+      entry.startsWith(`${stem}.`) &&
+      entry.endsWith(ext) &&
+      /^[0-9a-f]{7}$/.test(entry.slice(stem.length + 1, entry.length - ext.length)),
+  )
+}
+
+async function verifyImage(
+  buffer: Buffer,
+  expectedFormat: 'png' | 'webp',
+  expectedWidth: number,
+  expectedHeight: number,
+): Promise<string | undefined> {
+  const {format, width, height} = await sharp(buffer).metadata()
+  if (format !== expectedFormat) {
+    return `Expected a ${expectedFormat.toUpperCase()} image, got ${format}`
+  }
+
+  return width === expectedWidth && height === expectedHeight
+    ? undefined
+    : `Expected ${expectedWidth}x${expectedHeight} pixels, got ${width}x${height}`
+}
+
+async function verifyIco(buffer: Buffer, sizes: number[]): Promise<string | undefined> {
+  const frames = await decodeIco(buffer)
+  const expected = sizes.map((size) => `${size}x${size}`).join(', ')
+  const actual = frames
+    .toSorted((a, b) => a.width - b.width)
+    .map((frame) => `${frame.width}x${frame.height}`)
+    .join(', ')
+
+  return actual === expected ? undefined : `Expected frames of ${expected} pixels, got ${actual}`
+}
+
+async function verifySvg(buffer: Buffer): Promise<string | undefined> {
+  parseSvg(buffer)
+  return undefined
+}
+
+/**
+ * Checks that the web manifest parses, and that its icons point at existing files
+ */
+function checkWebManifest(content: string, basePath: string, entries: string[]): string[] {
+  let manifest: unknown
+  try {
+    manifest = JSON.parse(content)
+  } catch (err) {
+    return [`Could not parse web manifest: ${getMessage(err)}`]
+  }
+
+  const icons =
+    typeof manifest === 'object' && manifest !== null && 'icons' in manifest
+      ? manifest.icons
+      : undefined
+  if (!Array.isArray(icons)) {
+    return ['Web manifest has no "icons" array']
+  }
+
+  const problems: string[] = []
+  for (const icon of icons) {
+    const src: unknown = typeof icon === 'object' && icon !== null ? icon.src : undefined
+    if (typeof src !== 'string') {
+      problems.push('Web manifest icon is missing a "src" member')
+      continue
+    }
+
+    const name = resolveHref(src, basePath)
+    if (!name || !entries.includes(name)) {
+      problems.push(`Icon "${src}" does not exist`)
+    }
+  }
+
+  return problems
+}
+
+/**
+ * Checks that `browserconfig.xml` has a tile color, and that its tiles point at existing files
+ */
+function checkBrowserConfig(content: string, basePath: string, entries: string[]): string[] {
+  const problems: string[] = []
+  if (!/<TileColor>[^<]+<\/TileColor>/.test(content)) {
+    problems.push('Browser config has no tile color')
+  }
+
+  for (const match of content.matchAll(/\ssrc="([^"]*)"/g)) {
+    const src = (match[1] ?? '').replace(/&quot;/g, '"').replace(/&amp;/g, '&')
+    const name = resolveHref(src, basePath)
+    if (!name || !entries.includes(name)) {
+      problems.push(`Tile "${src}" does not exist`)
+    }
+  }
+
+  return problems
+}
+
+/**
+ * Checks that the favicon `<link>` tags of the given HTML file match the favicon set
+ */
+async function checkHtmlLinks(
+  htmlFile: string,
+  basePath: string,
+  fileNames: Record<string, string>,
+  icons: ResolvedIcon[],
+): Promise<string[]> {
+  let document: string
+  try {
+    document = await readFile(resolvePath(process.cwd(), htmlFile), 'utf8')
+  } catch (err) {
+    return [`Could not read HTML file: ${getMessage(err)}`]
+  }
+
+  const expected = getHeadLinks(basePath, fileNames, {icons})
+  const actual = findFaviconLinks(document)
+  const isSameLink = (a: {rel: string; href: string}, b: {rel: string; href: string}) =>
+    a.rel.toLowerCase() === b.rel.toLowerCase() &&
+    resolveHref(a.href, basePath) === resolveHref(b.href, basePath)
+
+  const problems: string[] = []
+  for (const link of expected) {
+    if (!actual.some((other) => isSameLink(link, other))) {
+      problems.push(`Missing <link rel="${link.rel}" href="${link.href}">`)
+    }
+  }
+
+  for (const link of actual) {
+    if (!expected.some((other) => isSameLink(link, other))) {
+      problems.push(`Unexpected <link rel="${link.rel}" href="${link.href}">`)
+    }
+  }
+
+  return problems
+}
+
+/**
+ * Resolves the given URL to a file name within the base path, if it points within it
+ */
+function resolveHref(href: string, basePath: string): string | undefined {
+  const base = new URL(basePath.endsWith('/') ? basePath : `${basePath}/`, 'http://localhost')
+  try {
+    const url = new URL(href, base)
+    return url.origin === base.origin && url.pathname.startsWith(base.pathname)
+      ? decodeURIComponent(url.pathname.slice(base.pathname.length))
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function getMessage(err: unknown): string {
+  return err instanceof Error ? err.message : `${err}`
+}
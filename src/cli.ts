@@ -1,7 +1,23 @@
 #!/usr/bin/env node
 import {readFileSync} from 'node:fs'
+import {writeFile} from 'node:fs/promises'
+import {join as joinPath, relative as relativePath, resolve as resolvePath} from 'node:path'
 import {parseArgs} from 'node:util'
+import {checkFavicons} from './check.js'
+import {findConfig, loadConfig, writeStarterConfig} from './config.js'
+import {FaviconError} from './errors.js'
 import {createFavicon} from './favicon.js'
+import {getInjectedHtmlFile} from './inject.js'
+import type {
+  ArchiveFormat,
+  FaviconConfig,
+  FaviconOptions,
+  FaviconResult,
+  FaviconWarningCode,
+  FilePlanEntry,
+  WebManifestOptions,
+} from './types.js'
+import {summarizeChanges, watchFiles, writeChangedFiles} from './watch.js'
 
 function getPackageVersion(): string {
   const raw = readFileSync(new URL('../package.json', import.meta.url), 'utf8')
@@ -17,22 +33,361 @@ function getPackageVersion(): string {
   return 'unknown'
 }
 
+/**
+ * Parses a comma-separated list of numbers, eg `16,32,48`. The numbers themselves (ranges etc)
+ * are validated by the options they are passed to.
+ */
+function parseNumberList(value: string, label: string): number[] {
+  return value.split(',').map((part) => {
+    const number = Number(part.trim())
+    if (part.trim() === '' || !Number.isFinite(number)) {
+      throw new FaviconError(
+        'INVALID_OPTION',
+        `Invalid ${label} "${part.trim()}" - must be a number`,
+      )
+    }
+    return number
+  })
+}
+
+/**
+ * Maps CLI flags to the web manifest option they set
+ */
+const manifestFlags: Record<string, keyof WebManifestOptions> = {
+  name: 'name',
+  'short-name': 'shortName',
+  description: 'description',
+  id: 'id',
+  'start-url': 'startUrl',
+  scope: 'scope',
+  display: 'display',
+  orientation: 'orientation',
+  'theme-color': 'themeColor',
+  'background-color': 'backgroundColor',
+  lang: 'lang',
+  dir: 'dir',
+}
+
+function getManifestOptions(values: Record<string, unknown>): WebManifestOptions | undefined {
+  const options: Record<string, unknown> = {}
+  for (const [flag, key] of Object.entries(manifestFlags)) {
+    if (typeof values[flag] === 'string') {
+      options[key] = values[flag]
+    }
+  }
+
+  // Values are validated by `createFavicon` before anything is written
+  return Object.keys(options).length > 0 ? (options as WebManifestOptions) : undefined
+}
+
+/**
+ * Determines the manifest option from CLI flags and config. Manifest member flags are merged
+ * on top of the members specified in the config file.
+ */
+function getManifest(
+  values: Record<string, unknown>,
+  config: FaviconConfig,
+): FaviconOptions['manifest'] {
+  if (values['no-manifest']) {
+    return false
+  }
+
+  const flags = getManifestOptions(values)
+  if (!flags) {
+    return config.manifest
+  }
+
+  return typeof config.manifest === 'object' ? {...config.manifest, ...flags} : flags
+}
+
+/**
+ * Determines the additional icons from CLI flags and config - sizes given with
+ * `--extra-sizes` replace the icons specified in the config file
+ */
+function getIcons(values: Record<string, unknown>, config: FaviconConfig): FaviconOptions['icons'] {
+  const sizes = values['extra-sizes']
+  return typeof sizes === 'string'
+    ? parseNumberList(sizes, 'icon size').map((size) => ({size}))
+    : config.icons
+}
+
+/**
+ * Determines the apple touch icon options from CLI flags and config, with flags taking
+ * precedence over the options specified in the config file
+ */
+function getAppleTouchIcon(
+  values: Record<string, unknown>,
+  config: FaviconConfig,
+): FaviconOptions['appleTouchIcon'] {
+  const background = values['apple-background']
+  const padding = values['apple-padding']
+  if (typeof background !== 'string' && typeof padding !== 'string') {
+    return config.appleTouchIcon
+  }
+
+  // Values are validated by `createFavicon` before anything is written
+  return {
+    ...config.appleTouchIcon,
+    ...(typeof background === 'string' ? {background} : {}),
+    ...(typeof padding === 'string' ? {padding: Number(padding)} : {}),
+  }
+}
+
+/**
+ * Determines the archive options from CLI flags. The archive is written to the output path
+ * given as a positional argument (the output directory is not used), or to stdout.
+ */
+function getArchive(
+  values: Record<string, unknown>,
+  file: string | undefined,
+): FaviconOptions['archive'] {
+  const format = values['archive-format']
+  if (!values['archive'] && typeof format !== 'string') {
+    return undefined
+  }
+
+  // Validated by `createFavicon`
+  return {
+    ...(typeof format === 'string' ? {format: format as ArchiveFormat} : {}),
+    ...(file ? {file} : {}),
+  }
+}
+
+/**
+ * Reads all of stdin, for the `-` source file
+ */
+async function readStdin(): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.from(chunk))
+  }
+
+  const buffer = Buffer.concat(chunks)
+  if (buffer.length === 0) {
+    throw new FaviconError('SOURCE_UNAVAILABLE', 'No data received on stdin')
+  }
+  return buffer
+}
+
+/**
+ * Determines which warnings to treat as errors from CLI flags and config - `--fail-on` picks
+ * the warning codes, `--strict` fails on all of them
+ */
+function getFailOnWarning(
+  values: Record<string, unknown>,
+  config: FaviconConfig,
+): FaviconOptions['failOnWarning'] {
+  const codes = values['fail-on']
+  if (typeof codes === 'string') {
+    // Validated by `createFavicon`
+    return codes.split(',').map((code) => code.trim()) as FaviconWarningCode[]
+  }
+  return values['strict'] ? true : config.failOnWarning
+}
+
+/**
+ * Determines the badge options from CLI flags and config, with flags taking precedence over
+ * the options specified in the config file
+ */
+function getBadge(values: Record<string, unknown>, config: FaviconConfig): FaviconOptions['badge'] {
+  const text = values['badge']
+  const color = values['badge-color']
+  if (typeof text !== 'string' && typeof color !== 'string') {
+    return config.badge
+  }
+
+  // Values are validated by `createFavicon` before anything is written
+  return {
+    ...config.badge,
+    ...(typeof text === 'string' ? {text} : {}),
+    ...(typeof color === 'string' ? {color} : {}),
+  }
+}
+
+/**
+ * Formats the plan of a dry run as a table, with paths relative to the working directory
+ */
+function formatPlan(plan: FilePlanEntry[]): string {
+  const rows = [
+    ['ACTION', 'SIZE', 'BYTES', 'FILE'],
+    ...plan.map(({action, width, height, size, path}) => [
+      action,
+      typeof width === 'number' ? `${width}x${height}` : '-',
+      `${size}`,
+      relativePath(process.cwd(), path),
+    ]),
+  ]
+
+  // The file column comes last, so that long paths do not need padding
+  const widths = [0, 1, 2].map((column) =>
+    Math.max(...rows.map((row) => (row[column] ?? '').length)),
+  )
+  const lines = rows.map((row) =>
+    row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join('  '),
+  )
+
+  const count = (action: FilePlanEntry['action']) =>
+    plan.filter((entry) => entry.action === action).length
+  const summary = `Dry run - ${count('create')} to create, ${count('overwrite')} to overwrite, ${count('skip')} to skip (nothing was written)`
+  return [...lines, '', summary].join('\n')
+}
+
+/**
+ * Gets the output of `--json` for a successful run: the HTML, what was done with each file
+ * (or with the archive they were bundled into), the warnings and the metadata of the source image
+ */
+function getJsonResult(
+  result: FaviconResult,
+  options: FaviconOptions,
+  dryRun: boolean,
+): Record<string, unknown> {
+  const plan = new Map((result.plan ?? []).map((entry) => [entry.path, entry]))
+  const outputDir = options.outputDir ?? 'favicons'
+  const archive = options.archive?.file ? plan.get(resolvePath(options.archive.file)) : undefined
+  const injected = options.inject ? plan.get(resolvePath(options.inject)) : undefined
+  return {
+    ok: true,
+    dryRun,
+    html: result.html,
+    files: result.files.map(({name, mimeType, width, height, buffer}) => {
+      // Files bundled into an archive are not written, and have no plan entry
+      const entry = plan.get(resolvePath(outputDir, name))
+      return {
+        name,
+        path: entry?.path,
+        action: entry?.action,
+        mimeType,
+        width,
+        height,
+        size: buffer.length,
+      }
+    }),
+    archive: archive ? {path: archive.path, action: archive.action, size: archive.size} : undefined,
+    injected: injected ? {path: injected.path, action: injected.action} : undefined,
+    warnings: result.warnings,
+    source: result.source,
+  }
+}
+
+/**
+ * Gets the output of `--json` for a failed run. Errors from invalid flags and unexpected
+ * errors do not have a code of their own.
+ */
+function getJsonError(err: unknown): Record<string, unknown> {
+  const message = err instanceof Error ? err.message : `${err}`
+  let code = 'UNKNOWN_ERROR'
+  if (err instanceof FaviconError) {
+    code = err.code
+  } else if (err instanceof Error && 'code' in err && `${err.code}`.startsWith('ERR_PARSE_ARGS')) {
+    code = 'INVALID_OPTION'
+  }
+
+  const warning = err instanceof FaviconError ? err.warning : undefined
+  return {ok: false, error: {code, message, warning}, exitCode: 1}
+}
+
+/**
+ * Parses a color mapping in the form `from=to,from=to`. Commas within color
+ * functions such as `rgb(0, 0, 0)` do not separate pairs.
+ */
+function parseColorMap(value: string): Record<string, string> {
+  const colors: Record<string, string> = {}
+  for (const pair of value.split(/,(?![^(]*\))/)) {
+    const [from, to, ...rest] = pair.split('=').map((part) => part.trim())
+    if (!from || !to || rest.length > 0) {
+      throw new FaviconError(
+        'INVALID_OPTION',
+        `Invalid color mapping "${pair.trim()}" - expected format "from=to"`,
+      )
+    }
+    colors[from] = to
+  }
+  return colors
+}
+
+/**
+ * Gets the local files to watch for the given options - the source file, the small and dark
+ * mode source files and the config file (URLs and buffers are not watched)
+ */
+function getWatchedFiles(options: FaviconOptions | undefined, configPath?: string): string[] {
+  return [options?.sourceFile, options?.smallSourceFile, options?.darkMode, configPath].filter(
+    (file): file is string => typeof file === 'string' && !/^https?:\/\//.test(file),
+  )
+}
+
+function log(message: string, level: 'log' | 'error' = 'log') {
+  console[level](`[${new Date().toLocaleTimeString()}] ${message}`)
+}
+
 const version = getPackageVersion()
 
 const helpText = `create-favicon v${version}
 
 Usage:
   create-favicon <source-file> [output-dir]
+  create-favicon <source-file> [archive-file] --archive
+  create-favicon init [--config <path>]
+  create-favicon check [output-dir] [--html <file>]
 
 Generate favicons from a source image
 
+Options are read from favicon.config.json, favicon.config.js, favicon.config.ts or the
+"favicon" key of package.json in the current directory, if present. Flags take precedence.
+The init command writes a starter config file (favicon.config.json unless --config is given).
+The check command verifies that an existing set of favicons is complete and correct, exiting
+with a non-zero code if any issues are found. Use - as the source file to read it from stdin.
+
 Options:
-  --overwrite          Overwrite existing files
-  --base-path <path>   Base path for printed HTML and web manifest (default: /)
-  --no-manifest        Skip outputting a webmanifest
-  --no-warn            Disable warnings
-  -h, --help           Show this help message
-  -v, --version        Show version number
+  --config <path>                Path to a config file to use
+  --overwrite                    Overwrite existing files
+  --base-path <path>             Base path for printed HTML and web manifest (default: /)
+  --no-manifest                  Skip outputting a webmanifest
+  --ico-sizes <sizes>            Comma-separated frame sizes for favicon.ico (default: 16,32,48)
+  --preset <preset>              Files to generate: minimal, pwa or legacy-full (default: pwa)
+  --extra-sizes <sizes>          Comma-separated sizes of additional PNG icons, eg 96,128
+  --small-source <file>          Simplified source image for small icons, eg the ICO frames
+  --small-max-size <px>          Largest icon size to render from --small-source (default: 32)
+  --apple-background <color>     Background color to flatten the apple touch icon onto
+  --apple-padding <percent>      Space around the apple touch icon artwork, in % (default: 0)
+  --badge <text>                 Draw a badge with the given text onto every icon, eg DEV
+  --badge-color <color>          Background color of the badge (default: #e11)
+  --dark-source <file>           Dark variant of the SVG source, shown in dark mode
+  --dark-colors <map>            Colors to replace in dark mode, eg "#000=#fff,#333=#ccc"
+  --mask-icon <color>            Generate a Safari pinned tab icon with the given color
+  --dark-theme-color <color>     Theme color when the user prefers a dark color scheme
+  --windows-tiles                Generate Windows tiles and browserconfig.xml
+  --tile-color <color>           Background color of Windows tiles (default: theme color)
+  --no-optimize-svg              Output the SVG as-is, without minifying it
+  --inject <file.html>           Replace the favicon tags in the <head> of the given HTML file
+  --format <format>              Format of the printed tags: html, jsx, json or next-metadata
+  --archive                      Write a zip of the files and head.html instead (stdout if no file)
+  --archive-format <format>      Format of the archive: zip or tar (default: from extension or zip)
+  --dry-run                      Print the files that would be written, without writing them
+  --json                         Print the result (or error) as JSON, eg for use in scripts
+  --hash                         Include a content hash in file names, eg favicon-512.3fa2c1d.png
+  --no-warn                      Disable warnings
+  --strict                       Treat warnings as errors, failing before anything is written
+  --fail-on <codes>              Comma-separated warning codes to treat as errors
+  --html <file>                  Check that the favicon tags of an HTML file match (check only)
+  --no-svg                       Expect no favicon.svg, eg for a PNG source (check only)
+  --watch                        Regenerate when the source or config file changes
+  -h, --help                     Show this help message
+  -v, --version                  Show version number
+
+Web manifest options:
+  --name <name>                  Name of the web application
+  --short-name <name>            Short name of the web application
+  --description <text>           Description of the web application
+  --id <id>                      Unique identifier of the web application
+  --start-url <url>              URL to load when the web application is launched
+  --scope <path>                 Navigation scope of the web application
+  --display <mode>               Display mode: fullscreen, standalone, minimal-ui or browser
+  --orientation <orientation>    Default orientation, eg any, portrait or landscape
+  --theme-color <color>          Theme color, as a CSS color (also used for the theme-color tag)
+  --background-color <color>     Background color of the splash screen, as a CSS color
+  --lang <lang>                  Language of the manifest members, eg en-US
+  --dir <dir>                    Text direction of the manifest members: ltr, rtl or auto
+  --maskable-background <color>  Background color for maskable icons (default: #ffffff)
 
 Examples:
   create-favicon source.svg
@@ -42,10 +397,52 @@ try {
   const {values, positionals} = parseArgs({
     allowPositionals: true,
     options: {
-      overwrite: {type: 'boolean', default: false},
-      'base-path': {type: 'string', default: '/'},
-      'no-manifest': {type: 'boolean', default: false},
-      'no-warn': {type: 'boolean', default: false},
+      config: {type: 'string'},
+      overwrite: {type: 'boolean'},
+      'base-path': {type: 'string'},
+      'no-manifest': {type: 'boolean'},
+      'ico-sizes': {type: 'string'},
+      'maskable-background': {type: 'string'},
+      preset: {type: 'string'},
+      'extra-sizes': {type: 'string'},
+      'small-source': {type: 'string'},
+      'small-max-size': {type: 'string'},
+      'apple-background': {type: 'string'},
+      'apple-padding': {type: 'string'},
+      badge: {type: 'string'},
+      'badge-color': {type: 'string'},
+      'dark-source': {type: 'string'},
+      'dark-colors': {type: 'string'},
+      'no-optimize-svg': {type: 'boolean'},
+      hash: {type: 'boolean'},
+      'dry-run': {type: 'boolean'},
+      archive: {type: 'boolean'},
+      'archive-format': {type: 'string'},
+      json: {type: 'boolean'},
+      strict: {type: 'boolean'},
+      'fail-on': {type: 'string'},
+      inject: {type: 'string'},
+      html: {type: 'string'},
+      'no-svg': {type: 'boolean'},
+      'mask-icon': {type: 'string'},
+      'dark-theme-color': {type: 'string'},
+      'windows-tiles': {type: 'boolean'},
+      'tile-color': {type: 'string'},
+      format: {type: 'string'},
+      name: {type: 'string'},
+      'short-name': {type: 'string'},
+      description: {type: 'string'},
+      id: {type: 'string'},
+      'start-url': {type: 'string'},
+      scope: {type: 'string'},
+      display: {type: 'string'},
+      orientation: {type: 'string'},
+      'theme-color': {type: 'string'},
+      'background-color': {type: 'string'},
+      lang: {type: 'string'},
+      dir: {type: 'string'},
+      'no-warn': {type: 'boolean'},
+      watch: {type: 'boolean', default: false},
       help: {type: 'boolean', short: 'h', default: false},
       version: {type: 'boolean', short: 'v', default: false},
     },
@@ -61,23 +458,228 @@ try {
     process.exit(0)
   }
 
-  const [sourceFile, outputDir] = positionals
-  if (!sourceFile) {
+  if (positionals[0] === 'init') {
+    const configPath = values.config ?? 'favicon.config.json'
+    await writeStarterConfig(configPath, values.overwrite)
+    console.log(
+      `Created ${configPath} - edit it to point at your source image, then run create-favicon`,
+    )
+    process.exit(0)
+  }
+
+  if (positionals[0] === 'check') {
+    const loaded = values.config ? await loadConfig(values.config) : await findConfig(process.cwd())
+    const config = loaded?.config ?? {}
+    const outputDir = positionals[1] ?? config.outputDir ?? 'favicons'
+    const result = await checkFavicons({
+      outputDir,
+      basePath: values['base-path'] ?? config.basePath,
+      manifest: values['no-manifest'] ? false : config.manifest !== false,
+      // Only SVG sources produce an SVG favicon
+      svg: values['no-svg']
+        ? false
+        : !config.sourceFile || /\.svg(?:[?#]|$)/i.test(config.sourceFile),
+      maskIcon: Boolean(values['mask-icon'] ?? config.maskIcon),
+      windowsTiles: values['windows-tiles'] ?? config.windowsTiles,
+      // Validated by `checkFavicons`
+      preset: (values.preset as FaviconOptions['preset']) ?? config.preset,
+      icons: getIcons(values, config),
+      icoSizes: values['ico-sizes']
+        ? parseNumberList(values['ico-sizes'], 'ICO size')
+        : config.icoSizes,
+      html: values.html ?? config.inject,
+    })
+
+    const dir = relativePath(process.cwd(), resolvePath(outputDir)) || '.'
+    if (result.ok) {
+      console.log(`All ${result.files.length} favicon files in ${dir} are valid`)
+      process.exit(0)
+    }
+
+    const count = result.issues.length
+    console.log(`Found ${count} issue${count === 1 ? '' : 's'} in ${dir}:`)
+    for (const issue of result.issues) {
+      console.log(`  ${issue.file}: ${issue.message}`)
+    }
+    process.exit(1)
+  }
+
+  if (values['dark-source'] && values['dark-colors']) {
+    throw new FaviconError(
+      'INVALID_OPTION',
+      'Only one of --dark-source and --dark-colors can be specified',
+    )
+  }
+
+  const darkColors = values['dark-colors'] ? parseColorMap(values['dark-colors']) : undefined
+
+  /**
+   * Resolves the options to generate favicons with from the config file (if any) and flags.
+   * Called on every regeneration in watch mode, so config file changes are picked up.
+   */
+  async function resolveOptions() {
+    const loaded = values.config ? await loadConfig(values.config) : await findConfig(process.cwd())
+    const config = loaded?.config ?? {}
+
+    const [sourceFile = config.sourceFile, outputDir = config.outputDir] = positionals
+    const options: FaviconOptions | undefined = sourceFile
+      ? {
+          sourceFile: sourceFile === '-' ? await readStdin() : sourceFile,
+          smallSourceFile: values['small-source'] ?? config.smallSourceFile,
+          smallSourceMaxSize: values['small-max-size']
+            ? Number(values['small-max-size'])
+            : config.smallSourceMaxSize,
+          outputDir,
+          archive: getArchive(values, positionals[1]),
+          basePath: values['base-path'] ?? config.basePath,
+          overwrite: values.overwrite ?? config.overwrite,
+          warn: values['no-warn'] || config.warn === false ? false : undefined,
+          failOnWarning: getFailOnWarning(values, config),
+          manifest: getManifest(values, config),
+          icoSizes: values['ico-sizes']
+            ? parseNumberList(values['ico-sizes'], 'ICO size')
+            : config.icoSizes,
+          maskableBackground: values['maskable-background'] ?? config.maskableBackground,
+          appleTouchIcon: getAppleTouchIcon(values, config),
+          badge: getBadge(values, config),
+          darkMode: values['dark-source'] ?? darkColors ?? config.darkMode,
+          optimizeSvg: values['no-optimize-svg'] ? false : config.optimizeSvg,
+          hash: values.hash ?? config.hash,
+          inject: values.inject ?? config.inject,
+          // Validated by `createFavicon`
+          format: (values.format as FaviconOptions['format']) ?? config.format,
+          maskIcon: values['mask-icon'] ?? config.maskIcon,
+          themeColor: values['theme-color'] ?? config.themeColor,
+          darkThemeColor: values['dark-theme-color'] ?? config.darkThemeColor,
+          windowsTiles: values['windows-tiles'] ?? config.windowsTiles,
+          // Validated by `createFavicon`
+          preset: (values.preset as FaviconOptions['preset']) ?? config.preset,
+          icons: getIcons(values, config),
+          tileColor: values['tile-color'] ?? config.tileColor,
+        }
+      : undefined
+
+    return {options, configPath: loaded?.path}
+  }
+
+  const {options, configPath} = await resolveOptions()
+  if (!options && values.json) {
+    throw new FaviconError('INVALID_OPTION', 'No source file specified')
+  }
+
+  if (!options) {
     console.log(helpText)
     process.exit(1)
   }
 
-  const result = await createFavicon({
-    sourceFile,
-    outputDir,
-    basePath: values['base-path'],
-    overwrite: values.overwrite,
-    warn: values['no-warn'] ? false : undefined,
-    manifest: values['no-manifest'] ? false : undefined,
-  })
+  for (const flag of ['dry-run', 'json', 'archive'] as const) {
+    if (values.watch && values[flag]) {
+      throw new FaviconError('INVALID_OPTION', `Only one of --watch and --${flag} can be specified`)
+    }
+  }
+
+  if (values.watch && positionals[0] === '-') {
+    throw new FaviconError('INVALID_OPTION', 'The source can not be read from stdin with --watch')
+  }
+
+  // The archive and the JSON output can not both be written to stdout
+  const archiveToStdout = Boolean(options.archive && !options.archive.file)
+  if (values.json && archiveToStdout) {
+    throw new FaviconError('INVALID_OPTION', 'An archive file must be given to use --json')
+  }
+
+  if (values.watch) {
+    await startWatching(options, configPath)
+  } else {
+    const dryRun = values['dry-run'] ?? false
+    const result = await createFavicon({...options, dryRun})
+    if (values.json) {
+      console.log(JSON.stringify(getJsonResult(result, options, dryRun), null, 2))
+    } else if (dryRun) {
+      console.log(formatPlan(result.plan ?? []))
+    } else if (result.archive && archiveToStdout) {
+      process.stdout.write(result.archive)
+    } else {
+      console.log(result.snippet)
+    }
+  }
+
+  /**
+   * Generates favicons, then regenerates them whenever the source or config file changes.
+   * Files are generated in memory and only written if changed, so that each regeneration
+   * does not warn about (or touch) files that are already up to date. As in a single run,
+   * existing files are only replaced with --overwrite - unless written by this session.
+   */
+  async function startWatching(initialOptions: FaviconOptions, initialConfigPath?: string) {
+    const owned = new Set<string>()
+    let lastSnippet: string | undefined
+    let running: Promise<void> | undefined
+    let rerun = false
+
+    const watcher = watchFiles(() => {
+      if (running) {
+        rerun = true
+        return
+      }
+      running = regenerate()
+    })
+
+    async function regenerate(): Promise<void> {
+      try {
+        const resolved = await resolveOptions()
+        watcher.setFiles(getWatchedFiles(resolved.options, resolved.configPath))
+        if (!resolved.options) {
+          throw new Error('No source file specified')
+        }
+
+        const result = await createFavicon({...resolved.options, write: false})
+        const outputDir = resolved.options.outputDir ?? joinPath(process.cwd(), 'favicons')
+        const {written, skipped} = await writeChangedFiles(outputDir, result.files, {
+          overwrite: resolved.options.overwrite,
+          owned,
+        })
+
+        const injected = resolved.options.inject
+          ? await getInjectedHtmlFile(resolved.options.inject, result.html)
+          : undefined
 
-  console.log(result.html)
+        if (injected?.changed) {
+          await writeFile(injected.path, injected.content)
+          written.push(relativePath(process.cwd(), injected.path))
+        }
+
+        if (result.snippet !== lastSnippet) {
+          console.log(result.snippet)
+          lastSnippet = result.snippet
+        }
+
+        log(summarizeChanges(written, result.files.length))
+        if (skipped.length > 0 && resolved.options.warn !== false) {
+          log(`Skipped existing files (use --overwrite to replace them): ${skipped.join(', ')}`)
+        }
+      } catch (err) {
+        // Keep watching - the source may be mid-save, or the config temporarily invalid
+        log(`Failed to generate favicons: ${err instanceof Error ? err.message : err}`, 'error')
+      }
+
+      running = undefined
+      if (rerun) {
+        rerun = false
+        running = regenerate()
+      }
+    }
+
+    watcher.setFiles(getWatchedFiles(initialOptions, initialConfigPath))
+    running = regenerate()
+    await running
+    log('Watching for changes (press Ctrl+C to stop)')
+  }
 } catch (err) {
-  console.error(err)
+  // The flags may not have been parsed, if they are the cause of the error
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(getJsonError(err), null, 2))
+  } else {
+    console.error(err)
+  }
   process.exit(1)
 }
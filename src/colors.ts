@@ -0,0 +1,218 @@
+/**
+ * Named colors defined by CSS Color Module Level 4
+ * https://www.w3.org/TR/css-color-4/#named-colors
+ */
+const NAMED_COLORS = new Set([
+  'aliceblue',
+  'antiquewhite',
+  'aqua',
+  'aquamarine',
+  'azure',
+  'beige',
+  'bisque',
+  'black',
+  'blanchedalmond',
+  'blue',
+  'blueviolet',
+  'brown',
+  'burlywood',
+  'cadetblue',
+  'chartreuse',
+  'chocolate',
+  'coral',
+  'cornflowerblue',
+  'cornsilk',
+  'crimson',
+  'cyan',
+  'darkblue',
+  'darkcyan',
+  'darkgoldenrod',
+  'darkgray',
+  'darkgreen',
+  'darkgrey',
+  'darkkhaki',
+  'darkmagenta',
+  'darkolivegreen',
+  'darkorange',
+  'darkorchid',
+  'darkred',
+  'darksalmon',
+  'darkseagreen',
+  'darkslateblue',
+  'darkslategray',
+  'darkslategrey',
+  'darkturquoise',
+  'darkviolet',
+  'deeppink',
+  'deepskyblue',
+  'dimgray',
+  'dimgrey',
+  'dodgerblue',
+  'firebrick',
+  'floralwhite',
+  'forestgreen',
+  'fuchsia',
+  'gainsboro',
+  'ghostwhite',
+  'gold',
+  'goldenrod',
+  'gray',
+  'green',
+  'greenyellow',
+  'grey',
+  'honeydew',
+  'hotpink',
+  'indianred',
+  'indigo',
+  'ivory',
+  'khaki',
+  'lavender',
+  'lavenderblush',
+  'lawngreen',
+  'lemonchiffon',
+  'lightblue',
+  'lightcoral',
+  'lightcyan',
+  'lightgoldenrodyellow',
+  'lightgray',
+  'lightgreen',
+  'lightgrey',
+  'lightpink',
+  'lightsalmon',
+  'lightseagreen',
+  'lightskyblue',
+  'lightslategray',
+  'lightslategrey',
+  'lightsteelblue',
+  'lightyellow',
+  'lime',
+  'limegreen',
+  'linen',
+  'magenta',
+  'maroon',
+  'mediumaquamarine',
+  'mediumblue',
+  'mediumorchid',
+  'mediumpurple',
+  'mediumseagreen',
+  'mediumslateblue',
+  'mediumspringgreen',
+  'mediumturquoise',
+  'mediumvioletred',
+  'midnightblue',
+  'mintcream',
+  'mistyrose',
+  'moccasin',
+  'navajowhite',
+  'navy',
+  'oldlace',
+  'olive',
+  'olivedrab',
+  'orange',
+  'orangered',
+  'orchid',
+  'palegoldenrod',
+  'palegreen',
+  'paleturquoise',
+  'palevioletred',
+  'papayawhip',
+  'peachpuff',
+  'peru',
+  'pink',
+  'plum',
+  'powderblue',
+  'purple',
+  'rebeccapurple',
+  'red',
+  'rosybrown',
+  'royalblue',
+  'saddlebrown',
+  'salmon',
+  'sandybrown',
+  'seagreen',
+  'seashell',
+  'sienna',
+  'silver',
+  'skyblue',
+  'slateblue',
+  'slategray',
+  'slategrey',
+  'snow',
+  'springgreen',
+  'steelblue',
+  'tan',
+  'teal',
+  'thistle',
+  'tomato',
+  'transparent',
+  'turquoise',
+  'violet',
+  'wheat',
+  'white',
+  'whitesmoke',
+  'yellow',
+  'yellowgreen',
+])
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+const COLOR_FUNCTION = /^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(\s*([^()]*?)\s*\)$/i
+const COLOR_COMPONENT = /^(?:[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?(?:%|deg|grad|rad|turn)?|none)$/i
+const COLOR_SPACES = new Set([
+  'srgb',
+  'srgb-linear',
+  'display-p3',
+  'a98-rgb',
+  'prophoto-rgb',
+  'rec2020',
+  'xyz',
+  'xyz-d50',
+  'xyz-d65',
+])
+
+/**
+ * Checks whether or not the given value is a valid CSS color - either a named color,
+ * a hex color or one of the CSS color functions (`rgb()`, `hsl()`, `oklch()` etc).
+ *
+ * Note that color function arguments are only checked for their general shape,
+ * not whether or not each value is within the allowed range.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a valid CSS color, false otherwise
+ * @internal
+ */
+export function isValidCssColor(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false
+  }
+
+  const color = value.trim().toLowerCase()
+  if (NAMED_COLORS.has(color) || HEX_COLOR.test(color)) {
+    return true
+  }
+
+  const match = COLOR_FUNCTION.exec(color)
+  if (!match) {
+    return false
+  }
+
+  // Both legacy (`rgb(0, 0, 0, 0.5)`) and modern (`rgb(0 0 0 / 50%)`) syntaxes are allowed
+  const [, fn, args = ''] = match
+  const parts = args.split(/\s*[\s,/]\s*/).filter(Boolean)
+  if (fn === 'color' && !COLOR_SPACES.has(parts.shift() ?? '')) {
+    return false
+  }
+
+  return parts.length >= 3 && parts.length <= 4 && parts.every((part) => COLOR_COMPONENT.test(part))
+}
+
+/**
+ * Checks whether or not the given value is a CSS color that can be used when rendering
+ * raster images - named colors, hex colors and the `rgb()`, `hsl()` and `hwb()` functions.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a valid raster color, false otherwise
+ * @internal
+ */
+export function isValidRasterColor(value: unknown): value is string {
+  return isValidCssColor(value) && !/^\s*(?:lab|lch|oklab|oklch|color)\(/i.test(value)
+}
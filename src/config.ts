@@ -0,0 +1,290 @@
+import {readFile, stat, writeFile} from 'node:fs/promises'
+import {dirname, extname, join as joinPath, resolve as resolvePath} from 'node:path'
+import {pathToFileURL} from 'node:url'
+import {validateBadgeOptions} from './badge.js'
+import {isValidCssColor, isValidRasterColor} from './colors.js'
+import {validateDarkModeColors} from './darkmode.js'
+import {FaviconError} from './errors.js'
+import {validateAppleTouchIconOptions, validateIcoSizes} from './favicon.js'
+import {validateSnippetFormat} from './head.js'
+import {validateIcons, validatePreset} from './presets.js'
+import {validateFailOnWarning} from './warnings.js'
+import {validateWebManifestOptions} from './webmanifest.js'
+import type {FaviconConfig} from './types.js'
+
+/**
+ * Configuration file names the CLI looks for in the current working directory, in order of
+ * precedence. If none are found, the `favicon` key of `package.json` is used (if present).
+ *
+ * @internal
+ */
+export const CONFIG_FILES = ['favicon.config.json', 'favicon.config.js', 'favicon.config.ts']
+
+/**
+ * Validators for each configuration option - returns a description of what the value
+ * should be if it is invalid, or `undefined` if it is valid
+ */
+const CONFIG_OPTIONS: Record<keyof FaviconConfig, (value: unknown) => string | undefined> = {
+  sourceFile: (value) => (isNonEmptyString(value) ? undefined : 'must be a non-empty string'),
+  smallSourceFile: (value) => (isNonEmptyString(value) ? undefined : 'must be a non-empty string'),
+  smallSourceMaxSize: (value) =>
+    Number.isInteger(value) && (value as number) > 0 ? undefined : 'must be a positive integer',
+  outputDir: (value) => (isNonEmptyString(value) ? undefined : 'must be a non-empty string'),
+  basePath: (value) => (isNonEmptyString(value) ? undefined : 'must be a non-empty string'),
+  inject: (value) => (isNonEmptyString(value) ? undefined : 'must be a non-empty string'),
+  warn: (value) => (typeof value === 'boolean' ? undefined : 'must be a boolean'),
+  failOnWarning: (value) =>
+    getErrorMessage(
+      () => validateFailOnWarning(value),
+      'must be a boolean or an array of warning codes',
+    ),
+  overwrite: (value) => (typeof value === 'boolean' ? undefined : 'must be a boolean'),
+  optimizeSvg: (value) => (typeof value === 'boolean' ? undefined : 'must be a boolean'),
+  hash: (value) => (typeof value === 'boolean' ? undefined : 'must be a boolean'),
+  format: (value) =>
+    getErrorMessage(() => validateSnippetFormat(value), 'must be a valid snippet format'),
+  preset: (value) => getErrorMessage(() => validatePreset(value), 'must be a valid preset'),
+  icons: (value) => getErrorMessage(() => validateIcons(value), 'must be an array of objects'),
+  maskIcon: (value) => (isValidCssColor(value) ? undefined : 'must be a valid CSS color'),
+  themeColor: (value) => (isValidCssColor(value) ? undefined : 'must be a valid CSS color'),
+  darkThemeColor: (value) => (isValidCssColor(value) ? undefined : 'must be a valid CSS color'),
+  windowsTiles: (value) => (typeof value === 'boolean' ? undefined : 'must be a boolean'),
+  tileColor: (value) => (isValidCssColor(value) ? undefined : 'must be a valid CSS color'),
+  maskableBackground: (value) =>
+    isValidRasterColor(value) ? undefined : 'must be a named, hex, rgb(), hsl() or hwb() CSS color',
+  appleTouchIcon: (value) =>
+    getErrorMessage(() => validateAppleTouchIconOptions(value), 'must be an object'),
+  badge: (value) => getErrorMessage(() => validateBadgeOptions(value), 'must be an object'),
+  icoSizes: (value) =>
+    getErrorMessage(() => validateIcoSizes(value), 'must be an array of numbers'),
+  manifest: (value) => {
+    if (typeof value === 'boolean') {
+      return undefined
+    }
+    return getErrorMessage(
+      () => validateWebManifestOptions(value),
+      'must be a boolean or an object',
+    )
+  },
+  darkMode: (value) => {
+    if (isNonEmptyString(value)) {
+      return undefined
+    }
+    return getErrorMessage(() => validateDarkModeColors(value), 'must be a string or an object')
+  },
+}
+
+/**
+ * A configuration loaded from disk
+ *
+ * @internal
+ */
+export interface LoadedConfig {
+  /**
+   * The validated configuration, with relative paths resolved
+   */
+  config: FaviconConfig
+
+  /**
+   * Absolute path to the file the configuration was loaded from
+   */
+  path: string
+}
+
+/**
+ * Looks for a configuration file (or a `favicon` key in `package.json`) in the given directory
+ *
+ * @param cwd - The directory to look in
+ * @returns The loaded configuration, or `undefined` if none was found
+ * @internal
+ */
+export async function findConfig(cwd: string): Promise<LoadedConfig | undefined> {
+  for (const fileName of CONFIG_FILES) {
+    const configPath = joinPath(cwd, fileName)
+    if (await isFile(configPath)) {
+      return loadConfig(configPath)
+    }
+  }
+
+  const pkgPath = joinPath(cwd, 'package.json')
+  if (!(await isFile(pkgPath))) {
+    return undefined
+  }
+
+  const pkg = await readJson(pkgPath)
+  if (typeof pkg !== 'object' || pkg === null || !('favicon' in pkg)) {
+    return undefined
+  }
+
+  return {config: validateConfig(pkg.favicon, pkgPath, 'favicon.'), path: pkgPath}
+}
+
+/**
+ * Loads and validates the configuration file at the given path. JSON files are parsed,
+ * JavaScript and TypeScript files are imported and should have the configuration as the
+ * default export. TypeScript files require a Node.js version with type stripping support.
+ *
+ * @param configPath - Path to the configuration file
+ * @returns The loaded configuration
+ * @internal
+ */
+export async function loadConfig(configPath: string): Promise<LoadedConfig> {
+  const path = resolvePath(configPath)
+  const raw = extname(path) === '.json' ? await readJson(path) : await importConfig(path)
+  return {config: validateConfig(raw, path), path}
+}
+
+/**
+ * Writes a starter configuration file to the given path, in a format matching the file
+ * extension (`.json`, `.js` or `.ts`)
+ *
+ * @param configPath - Path to write the configuration file to
+ * @param overwrite - Whether or not to replace an existing file
+ * @internal
+ */
+export async function writeStarterConfig(configPath: string, overwrite = false): Promise<void> {
+  const config: FaviconConfig = {
+    sourceFile: './logo.svg',
+    outputDir: './public',
+    basePath: '/',
+    manifest: {
+      name: 'My Application',
+      shortName: 'My App',
+      display: 'standalone',
+      themeColor: '#ffffff',
+      backgroundColor: '#ffffff',
+    },
+  }
+
+  const json = JSON.stringify(config, null, 2)
+  const extension = extname(configPath)
+  let content: string
+  if (extension === '.json') {
+    content = `${json}\n`
+  } else if (extension === '.js' || extension === '.mjs') {
+    content = `/** @type {import('create-favicon').FaviconConfig} */\nexport default ${json}\n`
+  } else if (extension === '.ts' || extension === '.mts') {
+    content = `import type {FaviconConfig} from 'create-favicon'\n\nexport default ${json} satisfies FaviconConfig\n`
+  } else {
+    throw new Error(`Config file must have a .json, .js or .ts extension, got "${configPath}"`)
+  }
+
+  if (!overwrite && (await isFile(configPath))) {
+    throw new Error(`Config file "${configPath}" already exists - use --overwrite to replace it`)
+  }
+
+  await writeFile(configPath, content)
+}
+
+/**
+ * Validates the given configuration, and resolves relative paths within it
+ *
+ * @param raw - The configuration to validate
+ * @param path - Path of the file the configuration was loaded from (for error messages)
+ * @param keyPrefix - Prefix for option names in error messages (eg `favicon.` for package.json)
+ * @returns The validated configuration
+ * @internal
+ */
+function validateConfig(raw: unknown, path: string, keyPrefix = ''): FaviconConfig {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    const what = keyPrefix ? `"${keyPrefix.slice(0, -1)}" key` : 'configuration'
+    throw new FaviconError('INVALID_CONFIG', `The ${what} in config file ${path} must be an object`)
+  }
+
+  const config: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(raw)) {
+    if (!Object.hasOwn(CONFIG_OPTIONS, key)) {
+      throw new FaviconError(
+        'INVALID_CONFIG',
+        `Unknown option "${keyPrefix}${key}" in config file ${path}`,
+      )
+    }
+
+    if (typeof value === 'undefined') {
+      continue
+    }
+
+    const problem = CONFIG_OPTIONS[key as keyof FaviconConfig](value)
+    if (problem) {
+      throw new FaviconError(
+        'INVALID_CONFIG',
+        `Option "${keyPrefix}${key}" in config file ${path} ${problem}`,
+      )
+    }
+
+    config[key] = value
+  }
+
+  // Paths are relative to the config file, not the working directory
+  const baseDir = dirname(path)
+  for (const key of ['sourceFile', 'smallSourceFile', 'outputDir', 'darkMode', 'inject']) {
+    const value = config[key]
+    if (typeof value === 'string' && !/^https?:\/\//.test(value)) {
+      config[key] = resolvePath(baseDir, value)
+    }
+  }
+
+  return config as FaviconConfig
+}
+
+async function readJson(path: string): Promise<unknown> {
+  let raw: string
+  try {
+    raw = await readFile(path, 'utf8')
+  } catch (err) {
+    throw new FaviconError(
+      'INVALID_CONFIG',
+      `Could not read config file ${path}: ${getMessage(err)}`,
+    )
+  }
+
+  try {
+    return JSON.parse(raw)
+  } catch (err) {
+    throw new FaviconError(
+      'INVALID_CONFIG',
+      `Could not parse config file ${path}: ${getMessage(err)}`,
+    )
+  }
+}
+
+async function importConfig(path: string): Promise<unknown> {
+  try {
+    // Imported modules are cached - the modification time ensures edits are picked up in watch mode
+    const {mtimeMs} = await stat(path)
+    const mod: unknown = await import(`${pathToFileURL(path).href}?mtime=${mtimeMs}`)
+    return typeof mod === 'object' && mod !== null && 'default' in mod ? mod.default : undefined
+  } catch (err) {
+    throw new FaviconError(
+      'INVALID_CONFIG',
+      `Could not load config file ${path}: ${getMessage(err)}`,
+    )
+  }
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile()
+  } catch {
+    return false
+  }
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== ''
+}
+
+function getErrorMessage(validate: () => unknown, fallback: string): string | undefined {
+  try {
+    validate()
+    return undefined
+  } catch (err) {
+    const message = getMessage(err)
+    // Object-level errors from the validators are rephrased to fit the config error format
+    return /must be an object/.test(message) ? fallback : `is invalid: ${message}`
+  }
+}
+
+function getMessage(err: unknown): string {
+  return err instanceof Error ? err.message : `${err}`
+}
@@ -0,0 +1,279 @@
+import {isValidCssColor} from './colors.js'
+import {
+  getTextContent,
+  getViewBox,
+  parseSvg,
+  serializeSvg,
+  walkSvg,
+  type SvgDocument,
+  type SvgElement,
+} from './svg.js'
+
+/**
+ * Presentation attributes (and CSS properties) that may hold a color we want to remap
+ */
+const COLOR_PROPERTIES = ['fill', 'stroke', 'stop-color', 'flood-color', 'lighting-color', 'color']
+
+const DARK_MEDIA_QUERY = '@media (prefers-color-scheme: dark)'
+
+/**
+ * Rewrites the given SVG so that the colors in the given mapping are swapped for their
+ * dark counterparts when the user prefers a dark color scheme, through an embedded
+ * `<style>` element. Colors are matched case-insensitively, and short hex colors are
+ * considered equal to their long form (`#000` matches `#000000`).
+ *
+ * Colors set through presentation attributes (`fill="#000"`), inline styles and existing
+ * `<style>` elements are remapped. Implicit colors (eg the default black fill) are not.
+ *
+ * @param input - The SVG to rewrite
+ * @param colors - Mapping of light colors to dark colors (eg `{'#000': '#fff'}`)
+ * @returns The rewritten SVG, along with the number of colors that were remapped
+ * @internal
+ */
+export function applyDarkModeColors(
+  input: string | Buffer,
+  colors: Record<string, string>,
+): {svg: string; replacements: number} {
+  const mapping = validateDarkModeColors(colors)
+  const doc = parseSvg(input, 'source SVG')
+  const rules = new Map<string, string>()
+  const styles: string[] = []
+  let replacements = 0
+
+  walkSvg(doc.root, (element) => {
+    if (element.name === 'style') {
+      const css = getTextContent(element)
+      const darkCss = replaceCssColors(css, mapping)
+      if (darkCss !== css) {
+        styles.push(darkCss)
+        replacements++
+      }
+      return
+    }
+
+    const properties = new Set<string>()
+    for (const property of COLOR_PROPERTIES) {
+      const value = element.attributes[property]
+      if (value && mapping.has(normalizeColor(value))) {
+        properties.add(property)
+      }
+    }
+
+    for (const declaration of (element.attributes['style'] ?? '').split(';')) {
+      const [property = '', value = ''] = declaration.split(':').map((part) => part.trim())
+      if (COLOR_PROPERTIES.includes(property) && mapping.has(normalizeColor(value))) {
+        properties.add(property)
+      }
+    }
+
+    for (const property of properties) {
+      const value = getColorValue(element, property)
+      const rule = `${property}:${mapping.get(normalizeColor(value))}!important`
+      const className = rules.get(rule) ?? `favicon-dark-${rules.size}`
+      rules.set(rule, className)
+      addClass(element, className)
+      replacements++
+    }
+  })
+
+  if (replacements > 0) {
+    const classRules = [...rules].map(([rule, className]) => `.${className}{${rule}}`)
+    const css = [...styles, ...classRules].join('')
+    addStyle(doc.root, `${DARK_MEDIA_QUERY}{${css}}`)
+  }
+
+  return {svg: serializeSvg(doc), replacements}
+}
+
+/**
+ * Combines the given light and dark SVGs into a single SVG, where the dark variant is
+ * displayed instead of the light one when the user prefers a dark color scheme.
+ *
+ * Both variants are embedded as nested `<svg>` elements, scaled to fit the light variant's
+ * dimensions. IDs and class names in the dark variant are prefixed to prevent collisions
+ * (eg between the `.st0` rules of two Illustrator exports).
+ *
+ * @param lightInput - The SVG to show by default
+ * @param darkInput - The SVG to show when the user prefers a dark color scheme
+ * @returns The combined SVG
+ * @internal
+ */
+export function combineDarkModeSvg(
+  lightInput: string | Buffer,
+  darkInput: string | Buffer,
+): string {
+  const light = parseSvg(lightInput, 'source SVG')
+  const dark = prefixNames(parseSvg(darkInput, 'dark mode SVG'), 'dark-')
+
+  const viewBox = getViewBox(light.root, 'light SVG')
+  const attributes: Record<string, string> = {xmlns: 'http://www.w3.org/2000/svg', viewBox}
+  for (const dimension of ['width', 'height']) {
+    const value = light.root.attributes[dimension]
+    if (value) {
+      attributes[dimension] = value
+    }
+  }
+
+  const root: SvgElement = {type: 'element', name: 'svg', attributes, children: []}
+  addStyle(
+    root,
+    `.favicon-dark{display:none}${DARK_MEDIA_QUERY}{.favicon-light{display:none}.favicon-dark{display:inline}}`,
+  )
+  root.children.push(toNestedSvg(light.root, 'favicon-light', viewBox))
+  root.children.push(toNestedSvg(dark.root, 'favicon-dark', getViewBox(dark.root, 'dark SVG')))
+
+  return serializeSvg({prolog: light.prolog, root})
+}
+
+/**
+ * Validates the given dark mode color mapping, and normalizes the colors within it
+ *
+ * @param colors - Mapping of light colors to dark colors
+ * @returns Map of normalized light colors to dark colors
+ * @internal
+ */
+export function validateDarkModeColors(colors: unknown): Map<string, string> {
+  if (typeof colors !== 'object' || colors === null || Array.isArray(colors)) {
+    throw new Error('Dark mode colors must be an object mapping light colors to dark colors')
+  }
+
+  const entries = Object.entries(colors)
+  if (entries.length === 0) {
+    throw new Error('Dark mode colors must contain at least one color mapping')
+  }
+
+  const mapping = new Map<string, string>()
+  for (const [from, to] of entries) {
+    for (const color of [from, to]) {
+      if (!isValidCssColor(color)) {
+        throw new Error(`Invalid dark mode color "${color}" - must be a valid CSS color`)
+      }
+    }
+
+    mapping.set(normalizeColor(from), to.trim())
+  }
+
+  return mapping
+}
+
+function normalizeColor(color: string): string {
+  const value = color.trim().toLowerCase()
+  // Expand short hex colors (#abc, #abcd) to their long form
+  if (/^#[0-9a-f]{3,4}$/.test(value)) {
+    return `#${value
+      .slice(1)
+      .split('')
+      .map((char) => char + char)
+      .join('')}`
+  }
+  return value
+}
+
+function getColorValue(element: SvgElement, property: string): string {
+  for (const declaration of (element.attributes['style'] ?? '').split(';')) {
+    const [name = '', value = ''] = declaration.split(':').map((part) => part.trim())
+    if (name === property) {
+      return value
+    }
+  }
+  return element.attributes[property] ?? ''
+}
+
+function replaceCssColors(css: string, mapping: Map<string, string>): string {
+  // Only look at declaration values (`fill: red`), not selectors (`.red`). References and
+  // strings (`url(#red)`, `"red"`) are kept as-is, as are words within identifiers (`dark-red`).
+  return css.replace(/:([^;{}]*)/g, (_, value: string) => {
+    const replaced = value.replace(
+      /url\([^()]*\)|(["'])(?:(?!\1).)*\1|#[0-9a-f]{3,8}(?![\w-])|(?<![\w#-])(?:(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^()]*\)|[a-z]+(?![\w(-]))/gi,
+      (match) => mapping.get(normalizeColor(match)) ?? match,
+    )
+    return `:${replaced}`
+  })
+}
+
+function addClass(element: SvgElement, className: string) {
+  const existing = element.attributes['class']
+  element.attributes['class'] = existing ? `${existing} ${className}` : className
+}
+
+function addStyle(root: SvgElement, css: string) {
+  // Appended so that its rules take precedence over those of any existing `<style>` elements
+  root.children.push({
+    type: 'element',
+    name: 'style',
+    attributes: {},
+    children: [{type: 'text', value: css}],
+  })
+}
+
+function toNestedSvg(root: SvgElement, className: string, viewBox: string): SvgElement {
+  // Nested SVGs are positioned and sized by the outer SVG
+  const attributes = {...root.attributes}
+  for (const attr of ['x', 'y', 'width', 'height']) {
+    delete attributes[attr]
+  }
+
+  const nested: SvgElement = {
+    ...root,
+    attributes: {...attributes, viewBox, width: '100%', height: '100%'},
+  }
+  addClass(nested, className)
+  return nested
+}
+
+function prefixNames(doc: SvgDocument, prefix: string): SvgDocument {
+  const ids = new Set<string>()
+  const classes = new Set<string>()
+  walkSvg(doc.root, (element) => {
+    const id = element.attributes['id']
+    if (id) {
+      ids.add(id)
+      element.attributes['id'] = `${prefix}${id}`
+    }
+
+    const classNames = element.attributes['class']?.split(/\s+/).filter(Boolean)
+    if (classNames?.length) {
+      classNames.forEach((className) => classes.add(className))
+      element.attributes['class'] = classNames.map((className) => `${prefix}${className}`).join(' ')
+    }
+  })
+
+  if (ids.size === 0 && classes.size === 0) {
+    return doc
+  }
+
+  const replaceRefs = (value: string) =>
+    value.replace(/url\(\s*(['"]?)#([^'")\s]+)\1\s*\)/g, (match, quote: string, id: string) =>
+      ids.has(id) ? `url(${quote}#${prefix}${id}${quote})` : match,
+    )
+
+  // Only selectors (the text before a `{`) are rewritten - not values such as `url(a.png)`
+  const replaceSelectors = (css: string) =>
+    css.replace(/[^{};]*\{/g, (selector) =>
+      selector
+        .replace(/#([\w-]+)/g, (match, id: string) => (ids.has(id) ? `#${prefix}${id}` : match))
+        .replace(/\.(-?[A-Za-z_][\w-]*)/g, (match, className: string) =>
+          classes.has(className) ? `.${prefix}${className}` : match,
+        ),
+    )
+
+  walkSvg(doc.root, (element) => {
+    for (const [name, value] of Object.entries(element.attributes)) {
+      const isHref = name === 'href' || name === 'xlink:href'
+      element.attributes[name] =
+        isHref && value.startsWith('#') && ids.has(value.slice(1))
+          ? `#${prefix}${value.slice(1)}`
+          : replaceRefs(value)
+    }
+
+    if (element.name === 'style') {
+      for (const child of element.children) {
+        if (child.type === 'text' || child.type === 'cdata') {
+          child.value = replaceSelectors(replaceRefs(child.value))
+        }
+      }
+    }
+  })
+
+  return doc
+}
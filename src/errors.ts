@@ -0,0 +1,64 @@
+import type {FaviconErrorCode, FaviconWarning} from './types.js'
+
+/**
+ * An error thrown while generating favicons, with a stable `code` identifying the kind of
+ * error (see {@link FaviconErrorCode}). Messages may change between versions, codes do not.
+ *
+ * @public
+ */
+export class FaviconError extends Error {
+  /**
+   * Stable code identifying the kind of error
+   */
+  code: FaviconErrorCode
+
+  /**
+   * The warning that caused the error, for `WARNING_AS_ERROR` errors
+   */
+  warning?: FaviconWarning
+
+  constructor(
+    code: FaviconErrorCode,
+    message: string,
+    options: {cause?: unknown; warning?: FaviconWarning} = {},
+  ) {
+    super(message, {cause: options.cause})
+    this.code = code
+    if (options.warning) {
+      this.warning = options.warning
+    }
+  }
+}
+
+/**
+ * Runs the given function, giving any error it throws the given code. Errors that already
+ * have a code keep it.
+ *
+ * @param code - The code to give errors
+ * @param fn - The function to run
+ * @returns The return value of the function
+ * @internal
+ */
+export function withErrorCode<T>(code: FaviconErrorCode, fn: () => T): T {
+  try {
+    return fn()
+  } catch (err) {
+    throw toFaviconError(code, err)
+  }
+}
+
+/**
+ * Converts the given error to a {@link FaviconError} with the given code, unless it already is
+ * one (in which case it is returned as-is)
+ *
+ * @param code - The code to give the error
+ * @param err - The error to convert
+ * @returns The converted error
+ * @internal
+ */
+export function toFaviconError(code: FaviconErrorCode, err: unknown): FaviconError {
+  if (err instanceof FaviconError) {
+    return err
+  }
+  return new FaviconError(code, err instanceof Error ? err.message : `${err}`, {cause: err})
+}
@@ -1,9 +1,78 @@
-import {join as joinPath, resolve as resolvePath} from 'node:path'
+import {createHash} from 'node:crypto'
+import {dirname, extname, join as joinPath, resolve as resolvePath} from 'node:path'
 import {mkdir, stat, readFile, writeFile} from 'node:fs/promises'
-import sharp from 'sharp'
-import {sharpToIco} from './ico.js'
-import {generateWebManifest} from './webmanifest.js'
-import type {FaviconOptions, FaviconResult} from './types.js'
+import sharp, {type Sharp} from 'sharp'
+import {
+  addBadgeToSvg,
+  applyBadge,
+  getBadgeSvg,
+  validateBadgeOptions,
+  type ResolvedBadge,
+} from './badge.js'
+import {ARCHIVE_MIME_TYPES, createArchive, validateArchiveOptions} from './archive.js'
+import {generateBrowserConfig, WINDOWS_TILES} from './browserconfig.js'
+import {isValidCssColor, isValidRasterColor} from './colors.js'
+import {applyDarkModeColors, combineDarkModeSvg, validateDarkModeColors} from './darkmode.js'
+import {formatHeadTags, getHeadLinks, getHeadMeta, validateSnippetFormat} from './head.js'
+import {FaviconError, toFaviconError, withErrorCode} from './errors.js'
+import {encodeIco} from './ico.js'
+import {getInjectedHtmlFile} from './inject.js'
+import {createMaskIconSvg} from './maskicon.js'
+import {minifySvg} from './minify.js'
+import {PRESETS, resolveIcons, validatePreset, type ResolvedIcon} from './presets.js'
+import {getWarningError, validateFailOnWarning} from './warnings.js'
+import {
+  generateWebManifest,
+  validateWebManifestOptions,
+  type WebManifestIcon,
+} from './webmanifest.js'
+import type {
+  AppleTouchIconOptions,
+  FaviconFile,
+  FaviconOptions,
+  FaviconResult,
+  FaviconWarning,
+  FilePlanEntry,
+  SvgOptimizationResult,
+} from './types.js'
+
+/**
+ * The frame sizes written to `favicon.ico` unless otherwise specified
+ *
+ * @internal
+ */
+export const DEFAULT_ICO_SIZES = [16, 32, 48]
+
+/**
+ * Background color used for maskable icons unless otherwise specified
+ *
+ * @internal
+ */
+const DEFAULT_MASKABLE_BACKGROUND = '#ffffff'
+
+/**
+ * Icons of this size or smaller are rendered from the small source file, if given, unless
+ * otherwise specified
+ *
+ * @internal
+ */
+const DEFAULT_SMALL_SOURCE_MAX_SIZE = 32
+
+/**
+ * Background color used for Windows tiles if neither a tile color nor a theme color is given
+ *
+ * @internal
+ */
+const DEFAULT_TILE_COLOR = '#ffffff'
+
+/**
+ * Maskable icons have their artwork scaled into a "safe zone" - a circle with a diameter
+ * of 80% of the icon size, so that it survives being cropped into circles, squircles etc.
+ * See https://web.dev/articles/maskable-icon
+ *
+ * @internal
+ */
+const MASKABLE_SAFE_ZONE = 0.8
 
 /**
  * Create variations of a favicon from a source image
@@ -14,7 +83,7 @@ import type {FaviconOptions, FaviconResult} from './types.js'
  */
 export async function createFavicon(options: FaviconOptions): Promise<FaviconResult> {
   if (!options) {
-    throw new Error('No options specified')
+    throw new FaviconError('INVALID_OPTION', 'No options specified')
   }
 
   const {
@@ -24,134 +93,717 @@ export async function createFavicon(options: FaviconOptions): Promise<FaviconRes
     basePath = '/',
     overwrite = false,
     manifest = true,
+    write = true,
+    dryRun = false,
+    maskableBackground = DEFAULT_MASKABLE_BACKGROUND,
+    darkMode,
+    optimizeSvg = true,
+    hash = false,
+    inject,
+    maskIcon,
+    darkThemeColor,
+    smallSourceFile,
+    smallSourceMaxSize = DEFAULT_SMALL_SOURCE_MAX_SIZE,
   } = options
 
+  // Gives errors thrown by option validators the `INVALID_OPTION` code
+  const validate = <T>(fn: () => T) => withErrorCode('INVALID_OPTION', fn)
+
+  const failOn = validate(() => validateFailOnWarning(options.failOnWarning ?? false))
+
+  const snippetFormat = validate(() => validateSnippetFormat(options.format ?? 'html'))
+  const presetName = validate(() => validatePreset(options.preset ?? 'pwa'))
+  const preset = PRESETS[presetName]
+  const extraIcons = validate(() => resolveIcons(presetName, options.icons))
+  const windowsTiles = options.windowsTiles ?? preset.windowsTiles
+
+  const icoSizes = validate(() => validateIcoSizes(options.icoSizes ?? DEFAULT_ICO_SIZES))
+  const appleTouchIconOptions = validate(() =>
+    validateAppleTouchIconOptions(options.appleTouchIcon ?? {}),
+  )
+  const badge = options.badge ? validate(() => validateBadgeOptions(options.badge)) : undefined
+  const archiveOptions = options.archive
+    ? validate(() => validateArchiveOptions(options.archive))
+    : undefined
+  const manifestOptions =
+    typeof manifest === 'object' ? validate(() => validateWebManifestOptions(manifest)) : undefined
+
+  if (!isValidRasterColor(maskableBackground)) {
+    throw new FaviconError(
+      'INVALID_OPTION',
+      `Maskable background must be a named, hex, rgb(), hsl() or hwb() CSS color, got "${maskableBackground}"`,
+    )
+  }
+
+  const themeColor = options.themeColor ?? manifestOptions?.themeColor
+  const colors = {
+    'Mask icon color': maskIcon,
+    'Theme color': themeColor,
+    'Dark theme color': darkThemeColor,
+    'Tile color': options.tileColor,
+  }
+  for (const [label, color] of Object.entries(colors)) {
+    if (typeof color !== 'undefined' && !isValidCssColor(color)) {
+      throw new FaviconError('INVALID_OPTION', `${label} must be a valid CSS color, got "${color}"`)
+    }
+  }
+
+  if (darkMode && typeof darkMode !== 'string' && !Buffer.isBuffer(darkMode)) {
+    validate(() => validateDarkModeColors(darkMode))
+  }
+
   if (!sourceFile) {
-    throw new Error('No source file specified')
+    throw new FaviconError('INVALID_OPTION', 'No source file specified')
   }
 
   if (typeof sourceFile !== 'string' && !Buffer.isBuffer(sourceFile)) {
-    throw new Error('Source file must be a string (file path or URL) or a Buffer')
+    throw new FaviconError(
+      'INVALID_OPTION',
+      'Source file must be a string (file path or URL) or a Buffer',
+    )
   }
 
-  const isBuffer = Buffer.isBuffer(sourceFile)
-  const isUrl = !isBuffer && /^https?:\/\//.test(sourceFile)
+  if (
+    typeof smallSourceFile !== 'undefined' &&
+    typeof smallSourceFile !== 'string' &&
+    !Buffer.isBuffer(smallSourceFile)
+  ) {
+    throw new FaviconError(
+      'INVALID_OPTION',
+      'Small source file must be a string (file path or URL) or a Buffer',
+    )
+  }
 
-  let source = Buffer.isBuffer(sourceFile) ? sourceFile : undefined
-  if (isUrl) {
-    source = await downloadImage(sourceFile)
-  } else if (!isBuffer) {
-    source = await readImage(resolvePath(process.cwd(), sourceFile))
+  if (!Number.isInteger(smallSourceMaxSize) || smallSourceMaxSize < 1) {
+    throw new FaviconError(
+      'INVALID_OPTION',
+      `Small source max size must be a positive integer, got "${smallSourceMaxSize}"`,
+    )
   }
 
-  if (!source) {
-    throw new Error('Could not read source image')
+  // Records the warning and prints it (unless disabled) - or fails, for warnings treated as errors
+  const warnings: FaviconWarning[] = []
+  const addWarning = (warning: FaviconWarning) => {
+    if (failOn.includes(warning.code)) {
+      throw getWarningError(warning)
+    }
+    warnings.push(warning)
+    printWarning(warning.message, warn)
   }
 
-  const image = sharp(source)
-  const {width, height, format} = await image.metadata()
-  if (!width || !height) {
-    throw new Error('Could not read image dimensions')
+  const source = await loadSource(sourceFile)
+  const {base, width, height, format} = await prepareBaseImage(
+    source,
+    'Source image',
+    512,
+    addWarning,
+  )
+
+  if (format !== 'svg') {
+    addWarning({
+      code: 'NON_SVG_SOURCE',
+      message: 'Source image is not an SVG - skipping SVG output',
+      file: 'favicon.svg',
+    })
   }
 
-  if (format !== 'svg' && (width < 512 || height < 512)) {
-    throw new Error('Source image must be at least 512x512 pixels')
+  // Simplified artwork for small sizes, where details of the main source become illegible
+  const small = smallSourceFile
+    ? await prepareBaseImage(
+        await loadSource(smallSourceFile),
+        'Small source image',
+        smallSourceMaxSize,
+        addWarning,
+      )
+    : undefined
+
+  // Gets the image to render an icon of the given size (its largest dimension) from
+  const getBase = (size: number) => (small && size <= smallSourceMaxSize ? small.base : base)
+
+  const files: FaviconFile[] = []
+  const fileNames: Record<string, string> = {}
+
+  // Records the file, giving it a content-hashed name if the `hash` option is enabled
+  const emit = (file: FaviconFile) => {
+    const name = hash ? getHashedName(file.name, file.buffer) : file.name
+    fileNames[file.name] = name
+    files.push({...file, name})
   }
 
-  if (format !== 'svg') {
-    printWarning('Source image is not an SVG - skipping SVG output', warn)
+  // Records a rendered raster image, drawing the badge onto it first (if any)
+  const emitImage = async (file: FaviconFile) => emit(badge ? await applyBadge(file, badge) : file)
+
+  // Gets the emitted name of a file, given its logical name (eg `favicon-512.png`)
+  const getName = (name: string) => fileNames[name] ?? name
+
+  // 512x512 and 192x192 for Android devices
+  await emitImage(await renderPng('favicon-512.png', getBase(512), 512))
+  await emitImage(await renderPng('favicon-192.png', getBase(192), 192))
+
+  // 180x180 for iOS devices - which show transparent areas as black
+  const appleTouchIcon = await renderPaddedPng(
+    'apple-touch-icon.png',
+    getBase(180),
+    180,
+    Math.round(180 * (1 - (2 * appleTouchIconOptions.padding) / 100)),
+    appleTouchIconOptions.background,
+  )
+  if (!appleTouchIconOptions.background && !(await sharp(appleTouchIcon.buffer).stats()).isOpaque) {
+    addWarning({
+      code: 'TRANSPARENT_APPLE_TOUCH_ICON',
+      message:
+        'Source image has transparent areas, which iOS shows as black on the home screen - set a background color for the apple touch icon to flatten it',
+      file: 'apple-touch-icon.png',
+    })
+  }
+  await emitImage(appleTouchIcon)
+
+  // Multi-resolution (16x16, 32x32, 48x48 by default) favicon for older browsers
+  const icoSize = Math.max(...icoSizes)
+  emit({
+    name: 'favicon.ico',
+    buffer: await sharpToIco(getBase, icoSizes, badge),
+    mimeType: 'image/x-icon',
+    width: icoSize,
+    height: icoSize,
+  })
+
+  // Additional icons from the preset (eg 16x16 and 32x32 PNGs) and the `icons` option
+  for (const icon of extraIcons) {
+    await emitImage(await renderIcon(icon, getBase(icon.size)))
+  }
+
+  // Web manifest file pointing to the generated files, along with maskable variants of
+  // the Android icons (only referenced from the manifest, so skipped along with it)
+  if (manifest) {
+    const icons: WebManifestIcon[] = [
+      {name: getName('favicon-192.png'), size: 192, type: 'image/png'},
+      {name: getName('favicon-512.png'), size: 512, type: 'image/png'},
+      ...extraIcons.map(({name, size, type}) => ({name: getName(name), size, type})),
+    ]
+
+    if (preset.maskable) {
+      await emitImage(
+        await renderMaskablePng('maskable-192.png', getBase(192), 192, maskableBackground),
+      )
+      await emitImage(
+        await renderMaskablePng('maskable-512.png', getBase(512), 512, maskableBackground),
+      )
+      icons.push(
+        {name: getName('maskable-192.png'), size: 192, type: 'image/png', purpose: 'maskable'},
+        {name: getName('maskable-512.png'), size: 512, type: 'image/png', purpose: 'maskable'},
+      )
+    }
+
+    emit({
+      name: 'manifest.webmanifest',
+      buffer: Buffer.from(generateWebManifest(basePath, manifestOptions, icons)),
+      mimeType: 'application/manifest+json',
+    })
+  }
+
+  // Tiles for pinned sites on Windows, along with the `browserconfig.xml` referencing them
+  const tileColor = windowsTiles
+    ? (options.tileColor ?? themeColor ?? DEFAULT_TILE_COLOR)
+    : undefined
+  if (tileColor) {
+    for (const tile of WINDOWS_TILES) {
+      const tileBase = getBase(Math.max(tile.width, tile.height))
+      await emitImage(await renderTilePng(tile.name, tileBase, tile.width, tile.height))
+    }
+
+    const tiles = WINDOWS_TILES.map(({name, element}) => ({element, fileName: getName(name)}))
+    emit({
+      name: 'browserconfig.xml',
+      buffer: Buffer.from(generateBrowserConfig(basePath, tiles, tileColor)),
+      mimeType: 'application/xml',
+    })
   }
 
-  await mkdir(outputDir, {recursive: true})
+  // If the input is an SVG, pass-through the original SVG as well
+  // (with dark mode styles, if specified - and minified, unless disabled)
+  let svgOptimization: SvgOptimizationResult | undefined
+  if (format === 'svg') {
+    let svg = darkMode ? await renderDarkModeSvg(source, darkMode, addWarning) : source
+    if (badge) {
+      const input = svg
+      svg = Buffer.from(withErrorCode('INVALID_SOURCE', () => addBadgeToSvg(input, badge)))
+    }
+    if (optimizeSvg) {
+      const optimized = tryMinifySvg(svg, addWarning)
+      svgOptimization = {originalSize: svg.length, optimizedSize: optimized.length}
+      svg = optimized
+    }
+    emit({name: 'favicon.svg', buffer: svg, mimeType: 'image/svg+xml', width, height})
+
+    // Single-color silhouette for Safari pinned tabs, if a mask icon color is given
+    const maskIconSvg = maskIcon ? tryCreateMaskIconSvg(source, addWarning) : undefined
+    if (maskIconSvg) {
+      emit({
+        name: 'safari-pinned-tab.svg',
+        buffer: maskIconSvg,
+        mimeType: 'image/svg+xml',
+        width,
+        height,
+      })
+    }
+  } else if (maskIcon) {
+    addWarning({
+      code: 'NON_SVG_SOURCE',
+      message: 'Source image is not an SVG - skipping Safari pinned tab icon',
+      file: 'safari-pinned-tab.svg',
+    })
+  }
+
+  // Generate the tags needed for the `<head>` of the HTML document
+  const links = getHeadLinks(basePath, fileNames, {maskIconColor: maskIcon, icons: extraIcons})
+  const meta = getHeadMeta(basePath, fileNames, {themeColor, darkThemeColor, tileColor})
+  const html = formatHeadTags(links, meta, 'html')
+  const snippet = snippetFormat === 'html' ? html : formatHeadTags(links, meta, snippetFormat)
+
+  // Prepared before writing anything, so that we fail early if the HTML file is invalid
+  const injected = inject && (write || dryRun) ? await getInjectedHtmlFile(inject, html) : undefined
+
+  // Bundle the files and the tags into an archive, which is written instead of the files
+  const archive = archiveOptions
+    ? createArchive(archiveOptions.format, [
+        ...files,
+        {name: 'head.html', buffer: Buffer.from(`${html}\n`)},
+      ])
+    : undefined
+
+  const outputs: Array<{file: FaviconFile; path: string}> = []
+  if (archive && archiveOptions?.file) {
+    const mimeType = ARCHIVE_MIME_TYPES[archiveOptions.format]
+    const file = {name: archiveOptions.file, buffer: archive, mimeType}
+    outputs.push({file, path: archiveOptions.file})
+  } else if (!archive) {
+    outputs.push(...files.map((file) => ({file, path: joinPath(outputDir, file.name)})))
+  }
+
+  // Decide what to do with each file before writing any, so that dry runs can report it
+  const targets: Array<{file: FaviconFile; entry: FilePlanEntry}> = []
+  if (write || dryRun) {
+    for (const {file, path} of outputs) {
+      const entry = await getPlanEntry(file, path, overwrite)
+      targets.push({file, entry})
+
+      if (entry.action === 'skip') {
+        addWarning({
+          code: 'FILE_EXISTS_SKIPPED',
+          message: `File ${file.name} already exists - skipping`,
+          file: file.name,
+        })
+      } else if (entry.action === 'overwrite') {
+        addWarning({
+          code: 'FILE_EXISTS_REPLACED',
+          message: `File ${file.name} already exists - replacing`,
+          file: file.name,
+        })
+      }
+    }
+  }
+
+  if (write && !dryRun) {
+    for (const {file, entry} of targets) {
+      if (entry.action !== 'skip') {
+        await mkdir(dirname(entry.path), {recursive: true})
+        await writeFile(entry.path, file.buffer)
+      }
+    }
+
+    if (injected?.changed) {
+      await writeFile(injected.path, injected.content)
+    }
+  }
+
+  const result: FaviconResult = {
+    html,
+    snippet,
+    links,
+    meta,
+    files,
+    fileNames,
+    warnings,
+    source: {format, width, height, size: source.length},
+  }
+  if (archive) {
+    result.archive = archive
+  }
+  if (write || dryRun) {
+    result.plan = targets.map(({entry}) => entry)
+    if (injected) {
+      result.plan.push({
+        path: injected.path,
+        action: injected.changed ? 'overwrite' : 'skip',
+        size: Buffer.byteLength(injected.content),
+      })
+    }
+  }
+  return svgOptimization ? {...result, svgOptimization} : result
+}
+
+/**
+ * Reads the dimensions of the given source image, checking that it is large enough to render
+ * icons from, and pads it to a square if needed
+ *
+ * @param source - The source image
+ * @param label - Name of the source image, used in warnings and errors
+ * @param minSize - Minimum width and height (in pixels) of raster source images
+ * @param addWarning - Function to record warnings with
+ * @returns The (square) base image to render icons from, along with its original metadata
+ * @internal
+ */
+async function prepareBaseImage(
+  source: Buffer,
+  label: string,
+  minSize: number,
+  addWarning: (warning: FaviconWarning) => void,
+): Promise<{base: Sharp; width: number; height: number; format: string | undefined}> {
+  const image = sharp(source)
+  const {width, height, format} = await image.metadata().catch((err: unknown) => {
+    throw toFaviconError('INVALID_SOURCE', err)
+  })
+  if (!width || !height) {
+    throw new FaviconError('INVALID_SOURCE', 'Could not read image dimensions')
+  }
+
+  if (format !== 'svg' && (width < minSize || height < minSize)) {
+    throw new FaviconError(
+      'INVALID_SOURCE',
+      `${label} must be at least ${minSize}x${minSize} pixels`,
+    )
+  }
 
   const base = image.ensureAlpha()
 
   if (width !== height) {
-    printWarning(
-      'Source image is not square - it is HIGHLY recommended that input image is square',
-      warn,
-    )
-    const size = Math.max(width, height, 512)
+    addWarning({
+      code: 'NON_SQUARE_SOURCE',
+      message: `${label} is not square - it is HIGHLY recommended that input image is square`,
+    })
+    const size = Math.max(width, height, minSize)
     base.resize(size, size, {fit: 'contain', background: 'transparent'})
   }
 
-  async function maybeWriteFile(name: string, writer: (fullPath: string) => Promise<any>) {
-    const fullPath = joinPath(outputDir, name)
-    const exists = await fileExists(fullPath)
+  return {base, width, height, format}
+}
 
-    if (exists && overwrite) {
-      printWarning(`File ${name} already exists - replacing`, warn)
-      return writer(fullPath)
-    }
+/**
+ * Renders a square PNG of the given size from the base image
+ *
+ * @param name - The file name to use for the rendered file
+ * @param img - The base image to use
+ * @param size - The width and height (in pixels) of the rendered image
+ * @returns The rendered file
+ * @internal
+ */
+async function renderPng(name: string, img: Sharp, size: number): Promise<FaviconFile> {
+  const buffer = await img.clone().resize(size, size).png().toBuffer()
+  return {name, buffer, mimeType: 'image/png', width: size, height: size}
+}
+
+/**
+ * Renders an additional icon from the base image, in the format of the icon
+ *
+ * @param icon - The icon to render
+ * @param img - The base image to use
+ * @returns The rendered file
+ * @internal
+ */
+async function renderIcon(icon: ResolvedIcon, img: Sharp): Promise<FaviconFile> {
+  const {name, size, format, type} = icon
+  const buffer = await img.clone().resize(size, size).toFormat(format).toBuffer()
+  return {name, buffer, mimeType: type, width: size, height: size}
+}
+
+/**
+ * Renders a Windows tile of the given dimensions from the base image. Wide tiles have the
+ * (square) artwork centered on a transparent canvas.
+ *
+ * @param name - The file name to use for the rendered file
+ * @param img - The base image to use
+ * @param width - The width (in pixels) of the rendered image
+ * @param height - The height (in pixels) of the rendered image
+ * @returns The rendered file
+ * @internal
+ */
+async function renderTilePng(
+  name: string,
+  img: Sharp,
+  width: number,
+  height: number,
+): Promise<FaviconFile> {
+  const buffer = await img
+    .clone()
+    .resize(width, height, {fit: 'contain', background: 'transparent'})
+    .png()
+    .toBuffer()
+  return {name, buffer, mimeType: 'image/png', width, height}
+}
 
-    if (exists && !overwrite) {
-      return printWarning(`File ${name} already exists - skipping`, warn)
+/**
+ * Renders a square, opaque PNG of the given size from the base image, with the artwork
+ * scaled into the maskable icon safe zone, over the given background color
+ *
+ * @param name - The file name to use for the rendered file
+ * @param img - The base image to use
+ * @param size - The width and height (in pixels) of the rendered image
+ * @param background - CSS color to use for the background
+ * @returns The rendered file
+ * @internal
+ */
+function renderMaskablePng(
+  name: string,
+  img: Sharp,
+  size: number,
+  background: string,
+): Promise<FaviconFile> {
+  return renderPaddedPng(name, img, size, Math.round(size * MASKABLE_SAFE_ZONE), background)
+}
+
+/**
+ * Renders a square PNG of the given size from the base image, with the artwork scaled to the
+ * given inner size and centered. If a background color is given, the image is flattened onto
+ * it - otherwise the padding is transparent.
+ *
+ * @param name - The file name to use for the rendered file
+ * @param img - The base image to use
+ * @param size - The width and height (in pixels) of the rendered image
+ * @param inner - The width and height (in pixels) of the artwork
+ * @param background - CSS color to use for the background, if any
+ * @returns The rendered file
+ * @internal
+ */
+async function renderPaddedPng(
+  name: string,
+  img: Sharp,
+  size: number,
+  inner: number,
+  background?: string,
+): Promise<FaviconFile> {
+  const start = Math.floor((size - inner) / 2)
+  const end = size - inner - start
+  const resized = img.clone().resize(inner, inner)
+  if (inner < size) {
+    resized.extend({
+      top: start,
+      left: start,
+      bottom: end,
+      right: end,
+      background: background ?? 'transparent',
+    })
+  }
+
+  const padded = await resized.png().toBuffer()
+
+  // Flattening happens before resizing in sharp's pipeline, so needs a separate pass
+  const buffer = background ? await sharp(padded).flatten({background}).png().toBuffer() : padded
+
+  return {name, buffer, mimeType: 'image/png', width: size, height: size}
+}
+
+/**
+ * Converts sharp image instances to an ICO buffer, with one frame for each given size
+ *
+ * @param getImage - Gets the base image to use for a frame of the given size
+ * @param sizes - The sizes (in pixels) of the frames to include
+ * @param badge - Badge to draw onto each frame, if any
+ * @returns A Buffer instance containing the ICO file
+ * @internal
+ */
+async function sharpToIco(
+  getImage: (size: number) => Sharp,
+  sizes: number[],
+  badge?: ResolvedBadge,
+): Promise<Buffer> {
+  const frames = []
+  for (const size of sizes) {
+    const frame = getImage(size).clone().resize(size, size, {kernel: 'cubic'})
+    if (badge) {
+      frame.composite([{input: Buffer.from(getBadgeSvg(badge, size, size))}])
     }
 
-    return writer(fullPath)
+    const {data, info} = await frame.ensureAlpha().raw().toBuffer({resolveWithObject: true})
+
+    frames.push({width: info.width, height: info.height, data})
   }
 
-  // 512x512 and 192x192 for Android devices
-  await maybeWriteFile('favicon-512.png', (path) =>
-    base.clone().resize(512, 512).png().toFile(path),
-  )
-  await maybeWriteFile('favicon-192.png', (path) =>
-    base.clone().resize(192, 192).png().toFile(path),
-  )
+  return encodeIco(frames)
+}
 
-  // 180x180 for iOS devices
-  await maybeWriteFile('apple-touch-icon.png', (path) =>
-    base.clone().resize(180, 180).png().toFile(path),
-  )
+/**
+ * Validates and normalizes (sorts, removes duplicates) a list of ICO frame sizes
+ *
+ * @param sizes - The sizes to validate
+ * @returns A sorted, de-duplicated array of sizes
+ * @internal
+ */
+export function validateIcoSizes(sizes: unknown): number[] {
+  if (!Array.isArray(sizes) || sizes.length === 0) {
+    throw new Error('ICO sizes must be a non-empty array of numbers')
+  }
 
-  // 32x32 favicon for older browsers
-  await maybeWriteFile('favicon.ico', async (path) =>
-    writeFile(path, await sharpToIco(base.clone())),
-  )
+  for (const size of sizes) {
+    if (typeof size !== 'number' || !Number.isInteger(size) || size < 1 || size > 256) {
+      throw new Error(`Invalid ICO size "${size}" - must be an integer between 1 and 256`)
+    }
+  }
 
-  // Web manifest file pointing to the generated files
-  if (manifest) {
-    await maybeWriteFile('manifest.webmanifest', (path) =>
-      writeFile(path, generateWebManifest(basePath)),
+  return [...new Set<number>(sizes)].sort((a, b) => a - b)
+}
+
+/**
+ * Validates the given apple touch icon options, throwing on unknown or invalid options
+ *
+ * @param options - The options to validate
+ * @returns The validated options, with the default padding applied
+ * @internal
+ */
+export function validateAppleTouchIconOptions(options: unknown): {
+  background?: string
+  padding: number
+} {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new Error('Apple touch icon options must be an object')
+  }
+
+  const {background, padding = 0, ...rest}: AppleTouchIconOptions = options
+  const [unknown] = Object.keys(rest)
+  if (unknown) {
+    throw new Error(`Unknown apple touch icon option "${unknown}"`)
+  }
+
+  if (typeof background !== 'undefined' && !isValidRasterColor(background)) {
+    throw new Error(
+      `Apple touch icon background must be a named, hex, rgb(), hsl() or hwb() CSS color, got "${background}"`,
     )
   }
 
-  // If the input is an SVG, pass-through the original SVG as well
-  if (format === 'svg' && source) {
-    const inputSource = source
-    await maybeWriteFile('favicon.svg', (path) => writeFile(path, inputSource))
+  if (typeof padding !== 'number' || !(padding >= 0 && padding < 50)) {
+    throw new Error(
+      `Apple touch icon padding must be a percentage of at least 0 and less than 50, got "${padding}"`,
+    )
   }
 
-  // Generate the HTML needed for the `<head>` of the HTML document
-  const html = generateHtml({basePath, hasSvg: format === 'svg', manifest})
+  return typeof background === 'undefined' ? {padding} : {background, padding}
+}
 
-  return {html}
+/**
+ * Gives the file a name containing a short hash of its content, for cache busting
+ * (eg `favicon-512.png` becomes `favicon-512.3fa2c1d.png`)
+ *
+ * @param name - The file name to add a hash to
+ * @param buffer - The content of the file
+ * @returns The hashed file name
+ * @internal
+ */
+function getHashedName(name: string, buffer: Buffer): string {
+  const ext = extname(name)
+  const digest = createHash('sha256').update(buffer).digest('hex').slice(0, 7)
+  return `${name.slice(0, name.length - ext.length)}.${digest}${ext}`
 }
 
 /**
- * Generates the HTML required for the `<head>` of the HTML document
+ * Adds dark mode support to the given SVG, either by combining it with a separate dark
+ * variant, or by remapping colors within it
  *
- * @param options - Options for the HTML generator
- * @returns The `<link>` tags required, unindented and separated by newlines
+ * @param svg - The source SVG
+ * @param darkMode - The dark variant (file path, URL or Buffer), or a color mapping
+ * @param addWarning - Function to record warnings with
+ * @returns A buffer containing the rewritten SVG
  * @internal
  */
-function generateHtml(options: {basePath: string; hasSvg: boolean; manifest: boolean}): string {
-  const {basePath, hasSvg, manifest} = options
-  const base = basePath.endsWith('/') ? basePath.replace(/\/+$/, '') : basePath
+async function renderDarkModeSvg(
+  svg: Buffer,
+  darkMode: string | Buffer | Record<string, string>,
+  addWarning: (warning: FaviconWarning) => void,
+): Promise<Buffer> {
+  // The colors are validated up front, so errors are from parsing either of the SVGs
+  if (typeof darkMode === 'string' || Buffer.isBuffer(darkMode)) {
+    const dark = await loadSource(darkMode)
+    return Buffer.from(withErrorCode('INVALID_SOURCE', () => combineDarkModeSvg(svg, dark)))
+  }
 
-  const links = [`<link rel="icon" href="${base}/favicon.ico" sizes="any">`]
+  const {svg: rewritten, replacements} = withErrorCode('INVALID_SOURCE', () =>
+    applyDarkModeColors(svg, darkMode),
+  )
+  if (replacements === 0) {
+    addWarning({
+      code: 'DARK_MODE_COLORS_NOT_FOUND',
+      message: 'None of the dark mode colors were found in the source SVG',
+      file: 'favicon.svg',
+    })
+  }
 
-  if (hasSvg) {
-    links.push(`<link rel="icon" href="${base}/favicon.svg" type="image/svg+xml">`)
+  return Buffer.from(rewritten)
+}
+
+/**
+ * Minifies the given SVG, falling back to the unmodified SVG (with a warning) if it cannot be
+ * parsed - sharp is more lenient than our parser, and optimization is an optional nicety
+ *
+ * @param svg - The SVG to minify
+ * @param addWarning - Function to record warnings with
+ * @returns A buffer containing the minified SVG (or the original, if it could not be minified)
+ * @internal
+ */
+function tryMinifySvg(svg: Buffer, addWarning: (warning: FaviconWarning) => void): Buffer {
+  try {
+    const minified = Buffer.from(minifySvg(svg))
+    return minified.length < svg.length ? minified : svg
+  } catch (err) {
+    const message = err instanceof Error ? err.message : `${err}`
+    addWarning({
+      code: 'SVG_OPTIMIZATION_FAILED',
+      message: `Could not optimize SVG, using it as-is: ${message}`,
+      file: 'favicon.svg',
+    })
+    return svg
   }
+}
 
-  links.push(`<link rel="apple-touch-icon" href="${base}/apple-touch-icon.png">`)
+/**
+ * Creates the Safari pinned tab icon from the given SVG, skipping it (with a warning) if the
+ * SVG cannot be parsed
+ *
+ * @param svg - The source SVG
+ * @param addWarning - Function to record warnings with
+ * @returns A buffer containing the silhouette SVG, or `undefined` if it could not be created
+ * @internal
+ */
+function tryCreateMaskIconSvg(
+  svg: Buffer,
+  addWarning: (warning: FaviconWarning) => void,
+): Buffer | undefined {
+  try {
+    return Buffer.from(createMaskIconSvg(svg))
+  } catch (err) {
+    const message = err instanceof Error ? err.message : `${err}`
+    addWarning({
+      code: 'MASK_ICON_FAILED',
+      message: `Could not create Safari pinned tab icon, skipping it: ${message}`,
+      file: 'safari-pinned-tab.svg',
+    })
+    return undefined
+  }
+}
 
-  if (manifest) {
-    links.push(`<link rel="manifest" href="${base}/manifest.webmanifest">`)
+/**
+ * Loads a source image from a file path, URL or buffer
+ *
+ * @param sourceFile - File path or URL to load from. Buffers are returned as-is.
+ * @returns A buffer containing the image data
+ * @internal
+ */
+async function loadSource(sourceFile: string | Buffer): Promise<Buffer> {
+  if (Buffer.isBuffer(sourceFile)) {
+    return sourceFile
   }
 
-  return links.join('\n')
+  return /^https?:\/\//.test(sourceFile)
+    ? downloadImage(sourceFile)
+    : readImage(resolvePath(process.cwd(), sourceFile))
 }
 
 /**
@@ -164,11 +816,14 @@ function generateHtml(options: {basePath: string; hasSvg: boolean; manifest: boo
 async function downloadImage(url: string): Promise<Buffer> {
   const response = await fetch(url).catch((err: unknown) => {
     const message = err instanceof Error ? err.message : `${err}`
-    throw new Error(`Failed fetching image from "${url}": ${message}`)
+    throw new FaviconError('SOURCE_UNAVAILABLE', `Failed fetching image from "${url}": ${message}`)
   })
 
   if (!response.ok) {
-    throw new Error(`Failed fetching image from "${url}": Server returned HTTP ${response.status}`)
+    throw new FaviconError(
+      'SOURCE_UNAVAILABLE',
+      `Failed fetching image from "${url}": Server returned HTTP ${response.status}`,
+    )
   }
 
   return Buffer.from(await response.arrayBuffer())
@@ -186,7 +841,7 @@ async function readImage(filePath: string): Promise<Buffer> {
     return await readFile(filePath)
   } catch (err) {
     const message = err instanceof Error ? err.message : `${err}`
-    throw new Error(`Could not read file "${filePath}": ${message}`)
+    throw new FaviconError('SOURCE_UNAVAILABLE', `Could not read file "${filePath}": ${message}`)
   }
 }
 
@@ -206,6 +861,27 @@ function printWarning(message: string, warner: typeof console.warn | false): voi
   warner(warner === console.warn ? `\u001b[93m[warn]\u001b[39m ${message}` : message)
 }
 
+/**
+ * Determines what to do with the given generated file when writing it to the given path
+ *
+ * @param file - The generated file
+ * @param fullPath - Path to write the file to
+ * @param overwrite - Whether or not existing files are replaced
+ * @returns The plan entry for the file
+ * @internal
+ */
+async function getPlanEntry(
+  file: FaviconFile,
+  fullPath: string,
+  overwrite: boolean,
+): Promise<FilePlanEntry> {
+  const exists = await fileExists(fullPath)
+  const action = exists ? (overwrite ? 'overwrite' : 'skip') : 'create'
+  const {width, height} = file
+  const entry: FilePlanEntry = {path: resolvePath(fullPath), action, size: file.buffer.length}
+  return typeof width === 'number' && typeof height === 'number' ? {...entry, width, height} : entry
+}
+
 /**
  * Checks if a file exists or not, with a friendly error if the existing path is not a file
  *
@@ -0,0 +1,230 @@
+import type {HeadLink, HeadMeta, SnippetFormat} from './types.js'
+
+/**
+ * The formats the head snippet can be generated in
+ *
+ * @internal
+ */
+export const SNIPPET_FORMATS: SnippetFormat[] = ['html', 'jsx', 'json', 'next-metadata']
+
+const LIGHT_MEDIA_QUERY = '(prefers-color-scheme: light)'
+const DARK_MEDIA_QUERY = '(prefers-color-scheme: dark)'
+
+/**
+ * HTML attributes that are named differently in JSX
+ */
+const JSX_ATTRIBUTES: Record<string, string> = {
+  crossorigin: 'crossOrigin',
+  'http-equiv': 'httpEquiv',
+  referrerpolicy: 'referrerPolicy',
+}
+
+/**
+ * Builds the list of `<link>` tags needed in the `<head>` of the HTML document. This is the
+ * shared model that all snippet formats are generated from.
+ *
+ * @param basePath - The base path where the files are located
+ * @param fileNames - Mapping of logical file names to the names of the generated files.
+ *   Links are only included for the files that were generated.
+ * @param options - Color of the Safari pinned tab icon, and additional icons to link, if any
+ * @returns The links, in the order they should appear in the document
+ * @internal
+ */
+export function getHeadLinks(
+  basePath: string,
+  fileNames: Record<string, string>,
+  options: {maskIconColor?: string; icons?: Array<{name: string; size: number; type: string}>} = {},
+): HeadLink[] {
+  const {maskIconColor, icons = []} = options
+  const href = (name: string) => getFileUrl(basePath, fileNames, name)
+  const links: HeadLink[] = []
+  const ico = href('favicon.ico')
+  if (ico) {
+    links.push({rel: 'icon', href: ico, sizes: 'any'})
+  }
+
+  const svg = href('favicon.svg')
+  if (svg) {
+    links.push({rel: 'icon', href: svg, type: 'image/svg+xml'})
+  }
+
+  for (const icon of icons) {
+    const iconHref = href(icon.name)
+    if (iconHref) {
+      links.push({rel: 'icon', href: iconHref, type: icon.type, sizes: `${icon.size}x${icon.size}`})
+    }
+  }
+
+  const appleTouchIcon = href('apple-touch-icon.png')
+  if (appleTouchIcon) {
+    links.push({rel: 'apple-touch-icon', href: appleTouchIcon})
+  }
+
+  const maskIcon = href('safari-pinned-tab.svg')
+  if (maskIcon) {
+    links.push(
+      maskIconColor
+        ? {rel: 'mask-icon', href: maskIcon, color: maskIconColor}
+        : {rel: 'mask-icon', href: maskIcon},
+    )
+  }
+
+  const manifest = href('manifest.webmanifest')
+  if (manifest) {
+    links.push({rel: 'manifest', href: manifest})
+  }
+
+  return links
+}
+
+/**
+ * Builds the list of `<meta>` tags needed in the `<head>` of the HTML document. When a dark
+ * theme color is given, the theme colors are scoped to the light and dark color schemes.
+ *
+ * @param basePath - The base path where the files are located
+ * @param fileNames - Mapping of logical file names to the names of the generated files.
+ *   Windows tile tags are only included if `browserconfig.xml` was generated.
+ * @param options - The theme and tile colors to include, if any
+ * @returns The meta tags, in the order they should appear in the document
+ * @internal
+ */
+export function getHeadMeta(
+  basePath: string,
+  fileNames: Record<string, string>,
+  options: {themeColor?: string; darkThemeColor?: string; tileColor?: string},
+): HeadMeta[] {
+  const {themeColor, darkThemeColor, tileColor} = options
+  const meta: HeadMeta[] = []
+  if (themeColor) {
+    meta.push(
+      darkThemeColor
+        ? {name: 'theme-color', content: themeColor, media: LIGHT_MEDIA_QUERY}
+        : {name: 'theme-color', content: themeColor},
+    )
+  }
+
+  if (darkThemeColor) {
+    meta.push({name: 'theme-color', content: darkThemeColor, media: DARK_MEDIA_QUERY})
+  }
+
+  const browserConfig = getFileUrl(basePath, fileNames, 'browserconfig.xml')
+  if (browserConfig) {
+    if (tileColor) {
+      meta.push({name: 'msapplication-TileColor', content: tileColor})
+    }
+    meta.push({name: 'msapplication-config', content: browserConfig})
+  }
+
+  return meta
+}
+
+/**
+ * Formats the given tags as a snippet in the given format
+ *
+ * @param links - The links to format
+ * @param meta - The meta tags to format
+ * @param format - The format to use
+ * @returns The formatted snippet
+ * @internal
+ */
+export function formatHeadTags(links: HeadLink[], meta: HeadMeta[], format: SnippetFormat): string {
+  switch (format) {
+    case 'html':
+      return [
+        ...links.map((link) => `<link ${formatAttributes(link)}>`),
+        ...meta.map((tag) => `<meta ${formatAttributes(tag)}>`),
+      ].join('\n')
+    case 'jsx':
+      return formatJsx(links, meta)
+    case 'json':
+      return JSON.stringify([...links, ...meta], null, 2)
+    case 'next-metadata':
+      return JSON.stringify(getNextMetadata(links, meta), null, 2)
+  }
+}
+
+/**
+ * Validates the given snippet format
+ *
+ * @param format - The format to validate
+ * @returns The validated format
+ * @internal
+ */
+export function validateSnippetFormat(format: unknown): SnippetFormat {
+  if (!SNIPPET_FORMATS.includes(format as SnippetFormat)) {
+    throw new Error(
+      `Invalid format "${format}" - must be one of ${SNIPPET_FORMATS.map((name) => `"${name}"`).join(', ')}`,
+    )
+  }
+  return format as SnippetFormat
+}
+
+/**
+ * Gets the URL of the given file, if it was generated
+ */
+function getFileUrl(
+  basePath: string,
+  fileNames: Record<string, string>,
+  name: string,
+): string | undefined {
+  const base = basePath.endsWith('/') ? basePath.replace(/\/+$/, '') : basePath
+  const fileName = fileNames[name]
+  return fileName ? `${base}/${fileName}` : undefined
+}
+
+function formatAttributes(tag: HeadLink | HeadMeta, getName = (name: string) => name): string {
+  return Object.entries(tag)
+    .filter(([, value]) => typeof value !== 'undefined')
+    .map(([name, value]) => `${getName(name)}="${escapeAttribute(`${value}`)}"`)
+    .join(' ')
+}
+
+function formatJsx(links: HeadLink[], meta: HeadMeta[]): string {
+  const toJsxName = (name: string) => JSX_ATTRIBUTES[name] ?? name
+  const tags = [
+    ...links.map((link) => `  <link ${formatAttributes(link, toJsxName)} />`),
+    ...meta.map((tag) => `  <meta ${formatAttributes(tag, toJsxName)} />`),
+  ]
+  return ['<>', ...tags, '</>'].join('\n')
+}
+
+/**
+ * Converts the tags to the `icons` and `manifest` fields of the Next.js Metadata API
+ * (https://nextjs.org/docs/app/api-reference/functions/generate-metadata#icons). Theme
+ * colors are left out, as Next.js only accepts them in the separate `viewport` export.
+ */
+function getNextMetadata(links: HeadLink[], meta: HeadMeta[]): Record<string, unknown> {
+  const icons: Record<string, Array<Record<string, string>>> = {}
+  let manifest: string | undefined
+
+  for (const {rel, href, ...rest} of links) {
+    if (rel === 'manifest') {
+      manifest = href
+      continue
+    }
+
+    const key = rel === 'icon' ? 'icon' : rel === 'apple-touch-icon' ? 'apple' : 'other'
+    const descriptor: Record<string, string> = key === 'other' ? {rel, url: href} : {url: href}
+    for (const [name, value] of Object.entries(rest)) {
+      if (typeof value !== 'undefined') {
+        descriptor[name] = value
+      }
+    }
+
+    icons[key] = [...(icons[key] ?? []), descriptor]
+  }
+
+  const metadata: Record<string, unknown> = manifest ? {icons, manifest} : {icons}
+
+  // Other meta tags (eg Windows tile configuration) go in the `other` field
+  const other = meta.filter((tag) => tag.name !== 'theme-color')
+  if (other.length > 0) {
+    metadata['other'] = Object.fromEntries(other.map(({name, content}) => [name, content]))
+  }
+
+  return metadata
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+}
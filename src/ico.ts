@@ -1,86 +1,330 @@
 /**
- * Sharp instance to ICO buffer
- * Based on https://github.com/shtse8/sharp-to-ico
+ * ICO encoder/decoder
+ * Encoder based on https://github.com/shtse8/sharp-to-ico
  * MIT (c) Weilin Shi
  */
-import type {Sharp, OutputInfo} from 'sharp'
+import sharp from 'sharp'
+import type {DecodedIcoFrame, IcoFrame} from './types.js'
+
+export type {DecodedIcoFrame, IcoFrame} from './types.js'
 
 const BITMAP_SIZE = 40
 const DIRECTORY_SIZE = 16
 const HEADER_SIZE = 6
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+
+/**
+ * Frames this size or larger are stored as embedded PNGs instead of bitmaps,
+ * as they would otherwise be very large (and Windows Vista+ expects it).
+ */
+const PNG_FRAME_THRESHOLD = 256
 
 /**
- * Converts a sharp image instance to an ICO buffer, with a single 32x32 image
+ * An encoded frame, ready to be placed in the ICO file
  *
- * @param img - The base image to use.
- * @returns A Buffer instance containing the ICO file
  * @internal
  */
-export async function sharpToIco(img: Sharp): Promise<Buffer> {
-  const {data, info} = await img
-    .clone()
-    .png()
-    .resize(32, 32, {kernel: 'cubic'})
+interface EncodedFrame {
+  width: number
+  height: number
+  data: Buffer
+}
+
+/**
+ * Encodes the given frames into an ICO file.
+ *
+ * Frames can either be raw RGBA pixel data (see {@link IcoFrame}), or PNG-encoded images
+ * (given as a Buffer), which are embedded as-is.
+ *
+ * @param frames - The frames to include in the ICO file
+ * @returns A Buffer instance containing the ICO file
+ * @public
+ */
+export async function encodeIco(frames: Array<IcoFrame | Uint8Array>): Promise<Buffer> {
+  if (!Array.isArray(frames) || frames.length === 0) {
+    throw new Error('At least one frame is required to encode an ICO file')
+  }
+
+  const encoded: EncodedFrame[] = []
+  for (const [index, frame] of frames.entries()) {
+    encoded.push(await encodeFrame(frame, index))
+  }
+
+  const header = getHeader(encoded.length)
+  let offset = HEADER_SIZE + DIRECTORY_SIZE * encoded.length
+  const dirs = encoded.map((frame) => {
+    const dir = getDir(frame, offset)
+    offset += frame.data.length
+    return dir
+  })
+
+  return Buffer.concat([header, ...dirs, ...encoded.map((frame) => frame.data)], offset)
+}
+
+/**
+ * Decodes an ICO file into its frames, in the order they appear in the file.
+ * Both bitmap (with or without AND mask) and PNG-embedded frames are supported.
+ *
+ * @param buffer - The ICO file to decode
+ * @returns An array of decoded frames, with pixel data as top-down RGBA
+ * @public
+ */
+export async function decodeIco(buffer: Uint8Array): Promise<DecodedIcoFrame[]> {
+  if (!(buffer instanceof Uint8Array)) {
+    throw new Error('ICO data must be a Buffer or Uint8Array')
+  }
+
+  const ico = Buffer.from(buffer.buffer, buffer.byteOffset, buffer.byteLength)
+  if (ico.length < HEADER_SIZE) {
+    throw new Error('Invalid ICO file: too short to contain a header')
+  }
+
+  const reserved = ico.readUInt16LE(0)
+  const type = ico.readUInt16LE(2)
+  const count = ico.readUInt16LE(4)
+  if (reserved !== 0) {
+    throw new Error(`Invalid ICO file: reserved header field must be 0, got ${reserved}`)
+  }
+
+  if (type !== 1) {
+    throw new Error(`Invalid ICO file: unexpected image type ${type} (expected 1)`)
+  }
+
+  if (count === 0) {
+    throw new Error('Invalid ICO file: contains no images')
+  }
+
+  if (ico.length < HEADER_SIZE + count * DIRECTORY_SIZE) {
+    throw new Error(`Invalid ICO file: header declares ${count} images, but directory is truncated`)
+  }
+
+  const frames: DecodedIcoFrame[] = []
+  for (let index = 0; index < count; index++) {
+    const entry = HEADER_SIZE + index * DIRECTORY_SIZE
+    const size = ico.readUInt32LE(entry + 8)
+    const offset = ico.readUInt32LE(entry + 12)
+    if (size === 0 || offset + size > ico.length) {
+      throw new Error(`Invalid ICO file: image ${index} data is outside the bounds of the file`)
+    }
+
+    const data = ico.subarray(offset, offset + size)
+    frames.push(isPng(data) ? await decodePngFrame(data, index) : decodeBmpFrame(data, index))
+  }
+
+  return frames
+}
+
+async function encodeFrame(frame: IcoFrame | Uint8Array, index: number): Promise<EncodedFrame> {
+  if (frame instanceof Uint8Array) {
+    const png = Buffer.from(frame)
+    if (!isPng(png) || png.length < 24) {
+      throw new Error(`Frame ${index} is not a valid PNG image`)
+    }
+
+    // Dimensions are the first two fields of the IHDR chunk, which always comes first
+    const width = png.readUInt32BE(16)
+    const height = png.readUInt32BE(20)
+    assertFrameDimensions(width, height, index)
+    return {width, height, data: png}
+  }
+
+  const {width, height, data} = frame
+  assertFrameDimensions(width, height, index)
+  if (!(data instanceof Uint8Array) || data.length !== width * height * 4) {
+    throw new Error(
+      `Frame ${index} must have ${width * height * 4} bytes of RGBA data (${width}x${height}x4)`,
+    )
+  }
+
+  const pixels = Buffer.from(data.buffer, data.byteOffset, data.byteLength)
+  const format = frame.format ?? (width >= PNG_FRAME_THRESHOLD ? 'png' : 'bmp')
+  if (format === 'png') {
+    const png = await sharp(pixels, {raw: {width, height, channels: 4}})
+      .png()
+      .toBuffer()
+    return {width, height, data: png}
+  }
+
+  return {
+    width,
+    height,
+    data: Buffer.concat([
+      getBmpInfoHeader(width, height),
+      getDib(pixels, width, height),
+      getAndMask(pixels, width, height),
+    ]),
+  }
+}
+
+function assertFrameDimensions(width: number, height: number, index: number) {
+  for (const dimension of [width, height]) {
+    if (!Number.isInteger(dimension) || dimension < 1 || dimension > 256) {
+      throw new Error(
+        `Frame ${index} has invalid dimensions ${width}x${height} - width and height must be integers between 1 and 256`,
+      )
+    }
+  }
+}
+
+function isPng(data: Buffer) {
+  return data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)
+}
+
+async function decodePngFrame(png: Buffer, index: number): Promise<DecodedIcoFrame> {
+  if (png.length < 26) {
+    throw new Error(`Invalid ICO file: image ${index} has a truncated PNG header`)
+  }
+
+  // IHDR: bit depth (per channel) at byte 24, color type at byte 25
+  const channelsByColorType: Record<number, number | undefined> = {0: 1, 2: 3, 3: 1, 4: 2, 6: 4}
+  const channels = channelsByColorType[png.readUInt8(25)] ?? 4
+  const bitDepth = png.readUInt8(24) * channels
+
+  const {data, info} = await sharp(png)
+    .ensureAlpha()
     .raw()
     .toBuffer({resolveWithObject: true})
+    .catch((err: unknown) => {
+      const message = err instanceof Error ? err.message : `${err}`
+      throw new Error(`Invalid ICO file: image ${index} could not be decoded as PNG: ${message}`)
+    })
 
-  const header = getHeader()
-  let offset = header.length + 16
-  const dir = getDir(info, offset)
-  const bmpInfoHeader = getBmpInfoHeader(info)
-  const dib = getDib(data, info)
+  return {width: info.width, height: info.height, bitDepth, format: 'png', data}
+}
+
+function decodeBmpFrame(bmp: Buffer, index: number): DecodedIcoFrame {
+  if (bmp.length < BITMAP_SIZE || bmp.readUInt32LE(0) < BITMAP_SIZE) {
+    throw new Error(`Invalid ICO file: image ${index} has a truncated bitmap header`)
+  }
 
-  const len = header.length + dir.length + bmpInfoHeader.length + dib.length
-  offset += bmpInfoHeader.length + dib.length
+  const headerSize = bmp.readUInt32LE(0)
+  const width = bmp.readInt32LE(4)
+  // The bitmap height covers both the XOR map and the AND mask, and is thus doubled
+  const height = bmp.readInt32LE(8) / 2
+  const bitDepth = bmp.readUInt16LE(14)
+  const compression = bmp.readUInt32LE(16)
+  const numColors = bmp.readUInt32LE(32)
 
-  return Buffer.concat([header, dir, bmpInfoHeader, dib], len)
+  if (width < 1 || height < 1 || !Number.isInteger(height)) {
+    throw new Error(`Invalid ICO file: image ${index} has invalid bitmap dimensions`)
+  }
+
+  if (![1, 4, 8, 24, 32].includes(bitDepth)) {
+    throw new Error(`Invalid ICO file: image ${index} has unsupported bit depth ${bitDepth}`)
+  }
+
+  if (compression !== 0) {
+    throw new Error(`Invalid ICO file: image ${index} uses unsupported bitmap compression`)
+  }
+
+  const paletteSize = bitDepth <= 8 ? numColors || 2 ** bitDepth : 0
+  const paletteOffset = headerSize
+  const xorOffset = paletteOffset + paletteSize * 4
+  const xorStride = Math.ceil((width * bitDepth) / 32) * 4
+  const andOffset = xorOffset + xorStride * height
+  const andStride = Math.ceil(width / 32) * 4
+  const hasMask = bmp.length >= andOffset + andStride * height
+
+  if (bmp.length < xorOffset) {
+    throw new Error(`Invalid ICO file: image ${index} has a truncated color palette`)
+  }
+
+  if (bmp.length < andOffset) {
+    throw new Error(`Invalid ICO file: image ${index} has truncated pixel data`)
+  }
+
+  const pixels = Buffer.alloc(width * height * 4)
+  let hasAlpha = false
+  for (let y = 0; y < height; y++) {
+    // Bitmap rows are stored bottom-up
+    const row = xorOffset + (height - 1 - y) * xorStride
+    for (let x = 0; x < width; x++) {
+      const pos = (y * width + x) * 4
+      if (bitDepth === 32 || bitDepth === 24) {
+        const src = row + x * (bitDepth / 8)
+        pixels[pos] = bmp.readUInt8(src + 2)
+        pixels[pos + 1] = bmp.readUInt8(src + 1)
+        pixels[pos + 2] = bmp.readUInt8(src)
+        pixels[pos + 3] = bitDepth === 32 ? bmp.readUInt8(src + 3) : 255
+        hasAlpha = hasAlpha || (bitDepth === 32 && pixels[pos + 3] !== 0)
+        continue
+      }
+
+      const bitOffset = x * bitDepth
+      const byte = bmp.readUInt8(row + (bitOffset >> 3))
+      const color = (byte >> (8 - bitDepth - (bitOffset & 7))) & ((1 << bitDepth) - 1)
+      if (color >= paletteSize) {
+        throw new Error(
+          `Invalid ICO file: image ${index} uses color ${color}, outside its ${paletteSize}-color palette`,
+        )
+      }
+
+      const entry = paletteOffset + color * 4
+      pixels[pos] = bmp.readUInt8(entry + 2)
+      pixels[pos + 1] = bmp.readUInt8(entry + 1)
+      pixels[pos + 2] = bmp.readUInt8(entry)
+      pixels[pos + 3] = 255
+    }
+  }
+
+  // 32-bit frames carry their own alpha channel. For everything else (and for legacy 32-bit
+  // frames where the alpha channel is empty), transparency is defined by the AND mask.
+  if (hasMask && (bitDepth !== 32 || !hasAlpha)) {
+    for (let y = 0; y < height; y++) {
+      const row = andOffset + (height - 1 - y) * andStride
+      for (let x = 0; x < width; x++) {
+        const masked = (bmp.readUInt8(row + (x >> 3)) >> (7 - (x & 7))) & 1
+        pixels[(y * width + x) * 4 + 3] = masked ? 0 : 255
+      }
+    }
+  }
+
+  return {width, height, bitDepth, format: 'bmp', data: pixels}
 }
 
 // https://en.wikipedia.org/wiki/ICO_(file_format)
-function getHeader() {
+function getHeader(numImages: number) {
   const buf = Buffer.alloc(HEADER_SIZE)
 
   buf.writeUInt16LE(0, 0) // Reserved. Must always be 0.
   buf.writeUInt16LE(1, 2) // Specifies image type: 1 for icon (.ICO) image
-  buf.writeUInt16LE(1, 4) // Specifies number of images in the file.
+  buf.writeUInt16LE(numImages, 4) // Specifies number of images in the file.
 
   return buf
 }
 
-function getDir(info: OutputInfo, offset: number) {
+function getDir(frame: EncodedFrame, offset: number) {
   const buf = Buffer.alloc(DIRECTORY_SIZE)
-  const size = info.size + BITMAP_SIZE
 
-  buf.writeUInt8(info.width, 0) // Specifies image width in pixels.
-  buf.writeUInt8(info.height, 1) // Specifies image height in pixels.
+  // Width and height are stored in a single byte - a value of 0 means 256 pixels
+  buf.writeUInt8(frame.width >= 256 ? 0 : frame.width, 0) // Specifies image width in pixels.
+  buf.writeUInt8(frame.height >= 256 ? 0 : frame.height, 1) // Specifies image height in pixels.
   buf.writeUInt8(0, 2) // Should be 0 if the image does not use a color palette.
   buf.writeUInt8(0, 3) // Reserved. Should be 0.
   buf.writeUInt16LE(1, 4) // Specifies color planes. Should be 0 or 1.
   buf.writeUInt16LE(32, 6) // Specifies bits per pixel.
-  buf.writeUInt32LE(size, 8) // Specifies the size of the image's data in bytes
+  buf.writeUInt32LE(frame.data.length, 8) // Specifies the size of the image's data in bytes
   buf.writeUInt32LE(offset, 12) // Specifies the offset of BMP or PNG data from the beginning of the ICO/CUR file
 
   return buf
 }
 
 // https://en.wikipedia.org/wiki/BMP_file_format
-function getBmpInfoHeader(info: OutputInfo) {
+function getBmpInfoHeader(width: number, height: number) {
   const buf = Buffer.alloc(BITMAP_SIZE)
   // https://en.wikipedia.org/wiki/ICO_(file_format)
   // ...Even if the AND mask is not supplied,
   // if the image is in Windows BMP format,
   // the BMP header must still specify a doubled height.
-  const height = 64
-  const width = 32
   const bpp = 32
 
   buf.writeUInt32LE(BITMAP_SIZE, 0) // The size of this header (40 bytes)
   buf.writeInt32LE(width, 4) // The bitmap width in pixels (signed integer)
-  buf.writeInt32LE(height, 8) // The bitmap height in pixels (signed integer)
+  buf.writeInt32LE(height * 2, 8) // The bitmap height in pixels (signed integer)
   buf.writeUInt16LE(1, 12) // The number of color planes (must be 1)
   buf.writeUInt16LE(bpp, 14) // The number of bits per pixel
   buf.writeUInt32LE(0, 16) // The compression method being used.
-  buf.writeUInt32LE(info.size, 20) // The image size.
+  buf.writeUInt32LE(width * height * 4 + getAndMaskSize(width, height), 20) // The image size.
   buf.writeInt32LE(0, 24) // The horizontal resolution of the image. (signed integer)
   buf.writeInt32LE(0, 28) // The vertical resolution of the image. (signed integer)
   buf.writeUInt32LE(0, 32) // The number of colors in the color palette, or 0 to default to 2n
@@ -92,12 +336,12 @@ function getBmpInfoHeader(info: OutputInfo) {
 // https://en.wikipedia.org/wiki/BMP_file_format
 // Note that the bitmap data starts with the lower left hand corner of the image.
 // blue green red alpha in order
-function getDib(data: Buffer, info: OutputInfo) {
+function getDib(data: Buffer, width: number, height: number) {
   const bpp = 4
-  const cols = info.width * bpp
-  const rows = info.height * cols
+  const cols = width * bpp
+  const rows = height * cols
   const end = rows - cols
-  const buf = Buffer.alloc(info.size)
+  const buf = Buffer.alloc(rows)
   // xor map
   for (let row = 0; row < rows; row += cols) {
     for (let col = 0; col < cols; col += bpp) {
@@ -117,3 +361,27 @@ function getDib(data: Buffer, info: OutputInfo) {
 
   return buf
 }
+
+// Each row of the AND mask is padded to a multiple of 32 bits
+function getAndMaskSize(width: number, height: number) {
+  return Math.ceil(width / 32) * 4 * height
+}
+
+// 1 bit per pixel, set for fully transparent pixels. Like the XOR map, it is stored bottom-up.
+// Modern readers use the alpha channel, but some legacy readers only look at the mask.
+function getAndMask(data: Buffer, width: number, height: number) {
+  const stride = Math.ceil(width / 32) * 4
+  const buf = Buffer.alloc(getAndMaskSize(width, height))
+  for (let y = 0; y < height; y++) {
+    const rowStart = (height - 1 - y) * stride
+    for (let x = 0; x < width; x++) {
+      const alpha = data.readUInt8((y * width + x) * 4 + 3)
+      if (alpha === 0) {
+        const pos = rowStart + (x >> 3)
+        buf.writeUInt8(buf.readUInt8(pos) | (0x80 >> (x & 7)), pos)
+      }
+    }
+  }
+
+  return buf
+}
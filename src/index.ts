@@ -1,9 +1,37 @@
 /**
  * Export APIs
  */
+export {checkFavicons} from './check.js'
+export {FaviconError} from './errors.js'
 export {createFavicon} from './favicon.js'
+export {faviconMiddleware, type FaviconMiddleware} from './middleware.js'
 
 /**
  * Re-export types
  */
-export type {FaviconOptions, FaviconResult} from './types.js'
+export type {
+  AppleTouchIconOptions,
+  ArchiveFormat,
+  ArchiveOptions,
+  BadgeOptions,
+  CheckFaviconsOptions,
+  CheckIssue,
+  CheckResult,
+  FaviconConfig,
+  FaviconErrorCode,
+  FaviconFile,
+  FaviconIcon,
+  FaviconMiddlewareOptions,
+  FaviconOptions,
+  FaviconPreset,
+  FaviconResult,
+  FaviconWarning,
+  FaviconWarningCode,
+  FilePlanEntry,
+  HeadLink,
+  HeadMeta,
+  SnippetFormat,
+  SourceImageInfo,
+  SvgOptimizationResult,
+  WebManifestOptions,
+} from './types.js'
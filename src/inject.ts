@@ -0,0 +1,275 @@
+import {readFile} from 'node:fs/promises'
+import {resolve as resolvePath} from 'node:path'
+import {FaviconError} from './errors.js'
+
+/**
+ * `rel` values of the `<link>` tags that are replaced when injecting favicon tags
+ */
+const FAVICON_RELS = new Set([
+  'icon',
+  'apple-touch-icon',
+  'apple-touch-icon-precomposed',
+  'mask-icon',
+  'manifest',
+])
+
+/**
+ * `name` values (lowercased) of the `<meta>` tags that are replaced when injecting favicon tags,
+ * if the injected tags include one of the same name
+ */
+const FAVICON_META_NAMES = new Set([
+  'theme-color',
+  'msapplication-config',
+  'msapplication-tilecolor',
+])
+
+const LINK_TAG = /<link\b(?:[^>"']|"[^"]*"|'[^']*')*>/gi
+const HEAD_TAG = /<(?:link|meta)\b(?:[^>"']|"[^"]*"|'[^']*')*>/gi
+const REL_ATTRIBUTE = /\srel\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i
+const NAME_ATTRIBUTE = /\sname\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i
+const HREF_ATTRIBUTE = /\shref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/i
+
+/**
+ * An HTML file with favicon tags injected into it
+ *
+ * @internal
+ */
+export interface InjectedHtmlFile {
+  /**
+   * Absolute path to the HTML file
+   */
+  path: string
+
+  /**
+   * The content of the HTML file, with favicon tags injected
+   */
+  content: string
+
+  /**
+   * Whether or not the content differs from what is currently on disk
+   */
+  changed: boolean
+}
+
+/**
+ * Reads the given HTML file and injects the given favicon tags into it. The file is not
+ * written - this allows failing before any other files are written, if the file is invalid.
+ *
+ * @param filePath - Path to the HTML file to inject tags into
+ * @param tags - The tags to inject, separated by newlines
+ * @returns The path and injected content of the file
+ * @internal
+ */
+export async function getInjectedHtmlFile(
+  filePath: string,
+  tags: string,
+): Promise<InjectedHtmlFile> {
+  const path = resolvePath(process.cwd(), filePath)
+
+  let original: string
+  try {
+    original = await readFile(path, 'utf8')
+  } catch (err) {
+    const message = err instanceof Error ? err.message : `${err}`
+    throw new FaviconError('INVALID_HTML', `Could not read HTML file "${path}": ${message}`)
+  }
+
+  const content = injectFaviconTags(original, tags, `"${path}"`)
+  return {path, content, changed: content !== original}
+}
+
+/**
+ * Injects the given favicon tags into the `<head>` of the given HTML document, replacing any
+ * existing icon, apple-touch-icon, mask-icon and manifest `<link>` tags, as well as the
+ * `theme-color` and `msapplication-*` `<meta>` tags of the kinds being injected (a page's own
+ * theme color is kept if none is injected). The tags are placed where the
+ * first of the existing tags was (or at the end of `<head>`), using the indentation of the
+ * surrounding elements. Injecting the same tags twice gives the same document.
+ *
+ * @param document - The HTML document to inject tags into
+ * @param tags - The tags to inject, separated by newlines
+ * @param label - What to call the document in error messages
+ * @returns The HTML document with the tags injected
+ * @internal
+ */
+export function injectFaviconTags(document: string, tags: string, label = 'HTML document'): string {
+  const isInComment = getCommentChecker(document)
+  const headRange = findHead(document, isInComment)
+  if (!headRange) {
+    throw new FaviconError('INVALID_HTML', `Could not find a <head> element in ${label}`)
+  }
+
+  const {tagStart, contentStart, contentEnd} = headRange
+  const head = document.slice(contentStart, contentEnd)
+
+  const metaNames = new Set(
+    [...tags.matchAll(HEAD_TAG)]
+      .map((match) => getAttribute(match[0], NAME_ATTRIBUTE).toLowerCase())
+      .filter((name) => FAVICON_META_NAMES.has(name)),
+  )
+
+  // Remove existing favicon tags, along with their line if they are alone on it
+  const removals: Array<{start: number; end: number; wholeLine: boolean}> = []
+  for (const match of head.matchAll(HEAD_TAG)) {
+    if (isInComment(contentStart + match.index) || !isFaviconTag(match[0], metaNames)) {
+      continue
+    }
+
+    const lineStart = head.lastIndexOf('\n', match.index) + 1
+    const newline = head.indexOf('\n', match.index)
+    const lineEnd = newline === -1 ? head.length : newline + 1
+    const end = match.index + match[0].length
+    const wholeLine =
+      lineStart > 0 &&
+      head.slice(lineStart, match.index).trim() === '' &&
+      head.slice(end, lineEnd).trim() === ''
+
+    removals.push(
+      wholeLine
+        ? {start: lineStart, end: lineEnd, wholeLine}
+        : {start: match.index, end, wholeLine},
+    )
+  }
+
+  const indent = getIndentation(document, head, tagStart)
+  const lines = tags.split('\n')
+
+  let newHead: string
+  const [first] = removals
+  if (first) {
+    let rest = head.slice(0, first.start)
+    rest += first.wholeLine ? formatLines(lines, indent) : lines.join('')
+    for (const [i, removal] of removals.entries()) {
+      rest += head.slice(removal.end, removals[i + 1]?.start ?? head.length)
+    }
+    newHead = rest
+  } else {
+    // Insert at the end of the head, before the line containing the closing tag (if any)
+    const lastNewline = head.lastIndexOf('\n')
+    newHead =
+      lastNewline !== -1 && head.slice(lastNewline).trim() === ''
+        ? head.slice(0, lastNewline + 1) + formatLines(lines, indent) + head.slice(lastNewline + 1)
+        : head + lines.join('')
+  }
+
+  return document.slice(0, contentStart) + newHead + document.slice(contentEnd)
+}
+
+/**
+ * Finds the icon, apple-touch-icon, mask-icon and manifest `<link>` tags in the `<head>` of
+ * the given HTML document (the links that {@link injectFaviconTags} replaces), ignoring those
+ * in comments
+ *
+ * @param document - The HTML document to search
+ * @returns The `rel` and `href` attributes of each tag, in document order (empty if the
+ *   document has no `<head>`)
+ * @internal
+ */
+export function findFaviconLinks(document: string): Array<{rel: string; href: string}> {
+  const isInComment = getCommentChecker(document)
+  const headRange = findHead(document, isInComment)
+  if (!headRange) {
+    return []
+  }
+
+  const {contentStart, contentEnd} = headRange
+  const head = document.slice(contentStart, contentEnd)
+  const links: Array<{rel: string; href: string}> = []
+  for (const match of head.matchAll(LINK_TAG)) {
+    if (!isInComment(contentStart + match.index) && isFaviconLink(match[0])) {
+      links.push({
+        rel: getAttribute(match[0], REL_ATTRIBUTE),
+        href: decodeEntities(getAttribute(match[0], HREF_ATTRIBUTE)),
+      })
+    }
+  }
+  return links
+}
+
+function getCommentChecker(document: string): (index: number) => boolean {
+  const comments = [...document.matchAll(/<!--[\s\S]*?(?:-->|$)/g)].map(
+    (match) => [match.index, match.index + match[0].length] as const,
+  )
+  return (index) => comments.some(([start, end]) => index >= start && index < end)
+}
+
+/**
+ * Finds the `<head>` element of the given document. Its content ends at the closing tag, or
+ * at the start of `<body>` (or the end of the document) if the closing tag is omitted.
+ */
+function findHead(
+  document: string,
+  isInComment: (index: number) => boolean,
+): {tagStart: number; contentStart: number; contentEnd: number} | undefined {
+  const headStart = findTag(document, /<head(?:\s[^>]*)?>/gi, isInComment)
+  if (!headStart) {
+    return undefined
+  }
+
+  const contentStart = headStart.index + headStart[0].length
+  const headEnd = findTag(document, /<\/head\s*>|<body[\s>]/gi, isInComment, contentStart)
+  return {
+    tagStart: headStart.index,
+    contentStart,
+    contentEnd: headEnd ? headEnd.index : document.length,
+  }
+}
+
+function findTag(
+  document: string,
+  pattern: RegExp,
+  isInComment: (index: number) => boolean,
+  fromIndex = 0,
+): RegExpExecArray | undefined {
+  pattern.lastIndex = fromIndex
+  for (let match = pattern.exec(document); match; match = pattern.exec(document)) {
+    if (!isInComment(match.index)) {
+      return match
+    }
+  }
+  return undefined
+}
+
+function isFaviconTag(tag: string, metaNames: Set<string>): boolean {
+  return /^<meta/i.test(tag)
+    ? metaNames.has(getAttribute(tag, NAME_ATTRIBUTE).toLowerCase())
+    : isFaviconLink(tag)
+}
+
+function isFaviconLink(tag: string): boolean {
+  return getAttribute(tag, REL_ATTRIBUTE)
+    .toLowerCase()
+    .split(/\s+/)
+    .some((token) => FAVICON_RELS.has(token))
+}
+
+function getAttribute(tag: string, pattern: RegExp): string {
+  const match = pattern.exec(tag)
+  return match?.[1] ?? match?.[2] ?? match?.[3] ?? ''
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function formatLines(lines: string[], indent: string): string {
+  return lines.map((line) => `${indent}${line}\n`).join('')
+}
+
+/**
+ * Determines the indentation of elements within the `<head>` - either from the first
+ * element within it, or by adding one level of indentation to the `<head>` element itself
+ */
+function getIndentation(document: string, head: string, headIndex: number): string {
+  for (const line of head.split('\n').slice(1)) {
+    if (line.trim() !== '' && !line.trim().startsWith('</head')) {
+      return /^[ \t]*/.exec(line)?.[0] ?? ''
+    }
+  }
+
+  const headIndent = /[ \t]*$/.exec(document.slice(0, headIndex))?.[0] ?? ''
+  return headIndent + (headIndent.includes('\t') ? '\t' : '  ')
+}
@@ -0,0 +1,84 @@
+import {minifySvg} from './minify.js'
+import {parseSvg, serializeSvg, walkSvg} from './svg.js'
+
+/**
+ * Presentation attributes (and CSS properties) that paint a shape
+ */
+const PAINT_PROPERTIES = ['fill', 'stroke', 'stop-color']
+
+/**
+ * Presentation attributes (and CSS properties) that make a shape partially transparent
+ */
+const OPACITY_PROPERTIES = ['opacity', 'fill-opacity', 'stroke-opacity', 'stop-opacity']
+
+/**
+ * White is commonly used for backgrounds and cut-outs, which would otherwise turn the whole
+ * silhouette into a square - so white shapes are left unpainted
+ */
+const WHITE =
+  /^(?:white|#fff|#ffff|#ffffff|#ffffffff|rgba?\(\s*255[\s,]+255[\s,]+255\s*(?:[,/]\s*1\s*)?\))$/i
+
+const CSS_PAINT = new RegExp(`(^|[\\s;{])(${PAINT_PROPERTIES.join('|')})(\\s*:\\s*)([^;}!]+)`, 'gi')
+const CSS_OPACITY = new RegExp(`(^|[\\s;{])(?:${OPACITY_PROPERTIES.join('|')})\\s*:[^;}]*;?`, 'gi')
+
+/**
+ * Creates a Safari pinned tab icon (mask icon) from the given SVG: a single-color (black),
+ * fully opaque silhouette of the source. Painted shapes are made black, while unpainted and
+ * white shapes are left out, as Safari only uses the shape of the icon and applies its own
+ * color (given by the `color` attribute of the `<link rel="mask-icon">` tag).
+ *
+ * @param input - The source SVG
+ * @returns The silhouette SVG, minified
+ * @internal
+ */
+export function createMaskIconSvg(input: string | Buffer): string {
+  const doc = parseSvg(input, 'source SVG')
+
+  walkSvg(doc.root, (element) => {
+    if (element.name === 'style') {
+      for (const child of element.children) {
+        if (child.type === 'text' || child.type === 'cdata') {
+          child.value = toSilhouetteCss(child.value)
+        }
+      }
+      return
+    }
+
+    for (const property of PAINT_PROPERTIES) {
+      const value = element.attributes[property]
+      if (typeof value !== 'undefined') {
+        element.attributes[property] = toSilhouettePaint(value)
+      }
+    }
+
+    for (const property of OPACITY_PROPERTIES) {
+      delete element.attributes[property]
+    }
+
+    const style = element.attributes['style']
+    if (typeof style !== 'undefined') {
+      element.attributes['style'] = toSilhouetteCss(style)
+    }
+  })
+
+  return minifySvg(serializeSvg(doc))
+}
+
+function toSilhouettePaint(value: string): string {
+  const paint = value.trim()
+  if (/^(?:none|transparent|inherit)$/i.test(paint)) {
+    return paint
+  }
+
+  return WHITE.test(paint) ? 'none' : '#000'
+}
+
+function toSilhouetteCss(css: string): string {
+  return css
+    .replace(CSS_OPACITY, '$1')
+    .replace(
+      CSS_PAINT,
+      (_match, prefix: string, property: string, separator: string, value: string) =>
+        `${prefix}${property}${separator}${toSilhouettePaint(value)}`,
+    )
+}
@@ -0,0 +1,167 @@
+import {createHash} from 'node:crypto'
+import type {IncomingMessage, ServerResponse} from 'node:http'
+import {createFavicon} from './favicon.js'
+import type {FaviconFile, FaviconMiddlewareOptions, FaviconResult} from './types.js'
+
+/**
+ * Cache-Control header used unless otherwise specified. After it expires, browsers
+ * revalidate using the ETag.
+ *
+ * @internal
+ */
+const DEFAULT_CACHE_CONTROL = 'public, max-age=3600'
+
+/**
+ * Cache-Control header used for content-hashed file names unless otherwise specified - the
+ * content of a hashed file name never changes, so it can be cached forever
+ *
+ * @internal
+ */
+const HASHED_CACHE_CONTROL = 'public, max-age=31536000, immutable'
+
+/**
+ * A Connect/Express compatible middleware function
+ *
+ * @public
+ */
+export type FaviconMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (err?: unknown) => void,
+) => void
+
+/**
+ * Creates a Connect/Express compatible middleware that serves favicons generated in memory.
+ * The favicons are rendered once, on the first request, using the same pipeline as
+ * {@link createFavicon}. Requests for other paths are passed on to the next handler (or
+ * answered with a 404 if there is none).
+ *
+ * @param options - Options for the favicon generator
+ * @returns A middleware function
+ * @public
+ */
+export function faviconMiddleware(options: FaviconMiddlewareOptions): FaviconMiddleware {
+  const {basePath = '/', cacheControl, ...rest} = options
+  const defaultCacheControl = options.hash ? HASHED_CACHE_CONTROL : DEFAULT_CACHE_CONTROL
+
+  let rendering: Promise<Map<string, ServedFile>> | undefined
+  function render(): Promise<Map<string, ServedFile>> {
+    rendering ??= createFavicon({...rest, basePath, write: false}).then(getServedFiles, (err) => {
+      // Allow retrying on the next request, eg if the source URL was temporarily unavailable
+      rendering = undefined
+      throw err
+    })
+    return rendering
+  }
+
+  return function serveFavicon(req, res, next) {
+    const fallthrough = (err?: unknown) => {
+      if (next) {
+        next(err)
+        return
+      }
+
+      res.statusCode = err ? 500 : 404
+      res.end(err ? 'Internal Server Error' : 'Not Found')
+    }
+
+    const name = getRequestedName(req.url, basePath)
+    if (!name || (req.method !== 'GET' && req.method !== 'HEAD')) {
+      fallthrough()
+      return
+    }
+
+    render().then((files) => {
+      const file = files.get(name)
+      if (!file) {
+        fallthrough()
+        return
+      }
+
+      res.setHeader('Content-Type', file.mimeType)
+      res.setHeader('ETag', file.etag)
+      res.setHeader('Cache-Control', cacheControl ?? defaultCacheControl)
+
+      if (isFresh(req.headers['if-none-match'], file.etag)) {
+        res.statusCode = 304
+        res.end()
+        return
+      }
+
+      res.setHeader('Content-Length', file.buffer.length)
+      res.end(req.method === 'HEAD' ? undefined : file.buffer)
+    }, fallthrough)
+  }
+}
+
+/**
+ * Finds the generated file that the given request URL refers to, if any
+ *
+ * @param files - The generated files
+ * @param url - The request URL (path and query)
+ * @param basePath - The base path the files are served from
+ * @returns The matching file, or `undefined` if the URL does not refer to any of the files
+ * @internal
+ */
+export function findFaviconFile(
+  files: FaviconFile[],
+  url: string | undefined,
+  basePath: string,
+): FaviconFile | undefined {
+  const name = getRequestedName(url, basePath)
+  return name ? files.find((file) => file.name === name) : undefined
+}
+
+/**
+ * A generated file, along with its entity tag
+ */
+interface ServedFile {
+  mimeType: string
+  buffer: Buffer
+  etag: string
+}
+
+function getServedFiles({files}: FaviconResult): Map<string, ServedFile> {
+  return new Map(
+    files.map((file) => {
+      const digest = createHash('sha256').update(file.buffer).digest('base64url').slice(0, 27)
+      return [file.name, {mimeType: file.mimeType, buffer: file.buffer, etag: `"${digest}"`}]
+    }),
+  )
+}
+
+/**
+ * Gets the file name requested by the given URL, if it is within the base path
+ */
+function getRequestedName(url: string | undefined, basePath: string): string | undefined {
+  if (!url) {
+    return undefined
+  }
+
+  const {pathname} = new URL(url, 'http://localhost')
+  const prefix = basePath.endsWith('/') ? basePath : `${basePath}/`
+  if (!pathname.startsWith(prefix)) {
+    return undefined
+  }
+
+  try {
+    return decodeURIComponent(pathname.slice(prefix.length)) || undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Checks whether the client already has the current version of the file, based on the
+ * `If-None-Match` request header
+ */
+function isFresh(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false
+  }
+
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag)
+}
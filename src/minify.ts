@@ -0,0 +1,386 @@
+import {parseSvg, serializeSvg, walkSvg, type SvgElement, type SvgNode} from './svg.js'
+
+/**
+ * Namespaces used by editors (Inkscape, Illustrator, Sketch etc) for their own bookkeeping -
+ * elements and attributes within these have no effect on rendering
+ */
+const EDITOR_NAMESPACES = [
+  'http://www.inkscape.org/namespaces/inkscape',
+  'http://sodipodi.sourceforge.net/DTD/sodipodi-0.dtd',
+  'http://ns.adobe.com/',
+  'http://www.bohemiancoding.com/sketch/ns',
+  'http://www.serif.com/',
+  'http://www.vectornator.io',
+]
+
+/**
+ * Elements whose whitespace content may affect rendering
+ */
+const TEXT_ELEMENTS = new Set(['text', 'tspan', 'textPath', 'title', 'desc'])
+
+/**
+ * Attributes that hold coordinates or lengths in the user coordinate system of the nearest
+ * `<svg>` element, and can thus have their precision reduced relative to its viewBox
+ */
+const GEOMETRY_ATTRIBUTES = new Set([
+  'd',
+  'points',
+  'x',
+  'y',
+  'x1',
+  'y1',
+  'x2',
+  'y2',
+  'cx',
+  'cy',
+  'r',
+  'rx',
+  'ry',
+  'width',
+  'height',
+  'stroke-width',
+])
+
+/**
+ * Elements that use the geometry attributes above as coordinates within the user coordinate
+ * system (as opposed to gradients, which default to a 0-1 "bounding box" range)
+ */
+const SHAPE_ELEMENTS = new Set([
+  'path',
+  'rect',
+  'circle',
+  'ellipse',
+  'line',
+  'polyline',
+  'polygon',
+  'use',
+  'image',
+])
+
+/**
+ * Attributes that switch their element's content to a 0-1 bounding box coordinate system
+ */
+const BOUNDING_BOX_UNITS = ['clipPathUnits', 'maskContentUnits', 'patternContentUnits']
+
+const PREDEFINED_ENTITIES = new Set(['lt', 'gt', 'amp', 'apos', 'quot'])
+
+const NUMBER = /[+-]?(?:\d+\.\d*|\.\d+|\d+)(?:e[+-]?\d+)?/gi
+const PATH_NUMBER = /[+-]?(?:\d+\.\d*|\.\d+|\d+)(?:e[+-]?\d+)?/iy
+
+/**
+ * Minifies the given SVG without (visibly) changing how it renders, by removing comments,
+ * metadata, editor-specific elements and attributes, unused definitions and insignificant
+ * whitespace, and by reducing the precision of coordinates to what is needed for the
+ * size of the viewBox.
+ *
+ * @param input - The SVG to minify
+ * @returns The minified SVG
+ * @internal
+ */
+export function minifySvg(input: string | Buffer): string {
+  const {prolog, root} = parseSvg(input, 'source SVG')
+
+  // The doctype is dropped, so any entities it declares (as Illustrator does for namespaces,
+  // eg `xmlns="&ns_svg;"`) have to be expanded for the output to remain well-formed
+  expandEntities(root, getEntities(prolog))
+
+  const editorPrefixes = new Set<string>()
+  for (const [name, value] of Object.entries(root.attributes)) {
+    if (name.startsWith('xmlns:') && EDITOR_NAMESPACES.some((ns) => value.startsWith(ns))) {
+      editorPrefixes.add(name.slice(6))
+    }
+  }
+
+  cleanElement(root, {editorPrefixes, decimals: getPrecision(root, 3), preserveSpace: false})
+  removeUnusedDefs(root)
+  removeUnusedNamespaces(root)
+
+  // The XML declaration, doctype and comments before the root element are not needed
+  return serializeSvg(root)
+}
+
+function getEntities(prolog: SvgNode[]): Map<string, string> {
+  const entities = new Map<string, string>()
+  for (const node of prolog) {
+    if (node.type !== 'doctype') {
+      continue
+    }
+
+    // Parameter entities (`<!ENTITY % name ...>`) cannot be referenced from the document
+    const declarations = node.value.matchAll(
+      /<!ENTITY\s+([A-Za-z_:][\w:.-]*)\s+(["'])(.*?)\2\s*>/gs,
+    )
+    for (const [, name = '', , value = ''] of declarations) {
+      // The first declaration of an entity is binding, and the predefined ones (`&lt;` etc) are
+      // left for the XML parser to handle
+      if (!entities.has(name) && !PREDEFINED_ENTITIES.has(name)) {
+        entities.set(name, value)
+      }
+    }
+  }
+  return entities
+}
+
+function expandEntities(element: SvgElement, entities: Map<string, string>) {
+  if (entities.size === 0) {
+    return
+  }
+
+  const expand = (value: string) =>
+    value.replace(/&([A-Za-z_:][\w:.-]*);/g, (match, name: string) => {
+      const entity = entities.get(name)
+      if (typeof entity === 'undefined') {
+        return match
+      }
+
+      if (/[<&]/.test(entity)) {
+        throw new Error(`Cannot expand entity "${match}", it contains markup or references`)
+      }
+      return entity
+    })
+
+  walkSvg(element, (child) => {
+    for (const [name, value] of Object.entries(child.attributes)) {
+      child.attributes[name] = expand(value)
+    }
+
+    for (const node of child.children) {
+      if (node.type === 'text') {
+        node.value = expand(node.value)
+      }
+    }
+  })
+}
+
+interface CleanContext {
+  editorPrefixes: Set<string>
+  decimals: number | undefined
+  preserveSpace: boolean
+}
+
+function cleanElement(element: SvgElement, parentContext: CleanContext) {
+  const context: CleanContext = {...parentContext}
+  if (element.name === 'svg') {
+    context.decimals = getPrecision(element, parentContext.decimals)
+  }
+
+  if (BOUNDING_BOX_UNITS.some((attr) => element.attributes[attr] === 'objectBoundingBox')) {
+    context.decimals = undefined
+  }
+
+  const space = element.attributes['xml:space']
+  if (space) {
+    context.preserveSpace = space === 'preserve'
+  }
+
+  for (const [name, value] of Object.entries(element.attributes)) {
+    if (isEditorName(name, context.editorPrefixes) || name === 'enable-background') {
+      delete element.attributes[name]
+      continue
+    }
+
+    const isGeometry =
+      name === 'd' ||
+      name === 'points' ||
+      (SHAPE_ELEMENTS.has(element.name) && GEOMETRY_ATTRIBUTES.has(name))
+
+    if (isGeometry && typeof context.decimals === 'number') {
+      element.attributes[name] =
+        name === 'd'
+          ? roundPathData(value, context.decimals)
+          : roundNumbers(value, context.decimals)
+    }
+  }
+
+  const keepWhitespace = context.preserveSpace || TEXT_ELEMENTS.has(element.name)
+  element.children = element.children.filter((child) => {
+    switch (child.type) {
+      case 'element':
+        if (child.name === 'metadata' || isEditorName(child.name, context.editorPrefixes)) {
+          return false
+        }
+        cleanElement(child, context)
+        return true
+      case 'comment':
+        // Comments starting with `!` are considered "legal" comments (licenses etc)
+        return child.value.startsWith('!')
+      case 'text':
+        return keepWhitespace || child.value.trim() !== ''
+      default:
+        return true
+    }
+  })
+}
+
+function isEditorName(name: string, editorPrefixes: Set<string>): boolean {
+  const [prefix = '', local] = name.split(':')
+  if (prefix === 'xmlns' && local) {
+    return editorPrefixes.has(local)
+  }
+
+  return typeof local !== 'undefined' && editorPrefixes.has(prefix)
+}
+
+/**
+ * Determines how many decimals are needed for coordinates within the given `<svg>` element,
+ * allowing for a precision of roughly 1/10000th of the viewBox size
+ */
+function getPrecision(svg: SvgElement, fallback: number | undefined): number | undefined {
+  const viewBox = (svg.attributes['viewBox'] ?? '').split(/[\s,]+/).map(Number)
+  const size = viewBox.length === 4 ? Math.max(viewBox[2] ?? 0, viewBox[3] ?? 0) : 0
+  if (!Number.isFinite(size) || size <= 0) {
+    return fallback
+  }
+
+  return Math.max(0, 3 - Math.floor(Math.log10(size))) + 1
+}
+
+function roundNumbers(value: string, decimals: number): string {
+  return value.replace(NUMBER, (match: string, offset: number) =>
+    roundNumber(match, decimals, value[offset + match.length]),
+  )
+}
+
+/**
+ * Rounds the numbers in the given path data. Unlike other attributes, path data can not be
+ * treated as a plain list of numbers: the flags of arc commands are single digits, which may
+ * run together with the following number (`a5 5 0 01.5 2` has the flags `0` and `1`).
+ */
+function roundPathData(value: string, decimals: number): string {
+  let result = ''
+  let command = ''
+  let argIndex = 0
+  let pos = 0
+
+  while (pos < value.length) {
+    const char = value[pos] ?? ''
+    if (/[a-df-z]/i.test(char)) {
+      command = char
+      argIndex = 0
+      result += char
+      pos++
+      continue
+    }
+
+    if (/[\s,]/.test(char)) {
+      result += char
+      pos++
+      continue
+    }
+
+    // The large arc and sweep flags are the 4th and 5th of the 7 arguments of each arc
+    const isFlag = command.toLowerCase() === 'a' && [3, 4].includes(argIndex % 7)
+    PATH_NUMBER.lastIndex = pos
+    const match = isFlag ? undefined : PATH_NUMBER.exec(value)?.[0]
+    if (!match) {
+      result += char
+      pos++
+      argIndex++
+      continue
+    }
+
+    pos += match.length
+    result += roundNumber(match, decimals, value[pos])
+    argIndex++
+  }
+
+  return result
+}
+
+function roundNumber(match: string, decimals: number, next: string | undefined): string {
+  const fraction = match.split('.')[1]
+  if (!fraction || fraction.length <= decimals || /e/i.test(match)) {
+    return match
+  }
+
+  const rounded = `${Number(Number(match).toFixed(decimals))}`
+
+  // Path data allows `1.5.5` to mean `1.5 .5` - don't let `1.0001.5` become `1.5`
+  return next === '.' && !rounded.includes('.') ? `${rounded} ` : rounded
+}
+
+function removeUnusedDefs(root: SvgElement) {
+  for (;;) {
+    const refs = getReferencedIds(root)
+    let removed = false
+
+    walkSvg(root, (element) => {
+      const before = element.children.length
+      element.children = element.children.filter(
+        (child) => !isUnusedDefinition(child, element, refs),
+      )
+      removed = removed || element.children.length !== before
+    })
+
+    if (!removed) {
+      return
+    }
+  }
+}
+
+function isUnusedDefinition(node: SvgNode, parent: SvgElement, refs: Set<string>): boolean {
+  if (node.type !== 'element') {
+    return false
+  }
+
+  if (node.name === 'defs') {
+    return node.children.every((child) => child.type === 'text')
+  }
+
+  if (parent.name !== 'defs' || node.name === 'style') {
+    return false
+  }
+
+  const id = node.attributes['id']
+  return !id || !refs.has(id)
+}
+
+function getReferencedIds(root: SvgElement): Set<string> {
+  const refs = new Set<string>()
+  const addRefs = (value: string, pattern: RegExp) => {
+    for (const match of value.matchAll(pattern)) {
+      if (match[1]) {
+        refs.add(match[1])
+      }
+    }
+  }
+
+  walkSvg(root, (element) => {
+    for (const [name, value] of Object.entries(element.attributes)) {
+      if ((name === 'href' || name.endsWith(':href')) && value.startsWith('#')) {
+        refs.add(value.slice(1))
+      }
+      addRefs(value, /url\(\s*['"]?#([^'")\s]+)/g)
+    }
+
+    if (element.name === 'style') {
+      for (const child of element.children) {
+        if (child.type === 'text' || child.type === 'cdata') {
+          addRefs(child.value, /#([\w-]+)/g)
+        }
+      }
+    }
+  })
+
+  return refs
+}
+
+function removeUnusedNamespaces(root: SvgElement) {
+  const used = new Set<string>()
+  walkSvg(root, (element) => {
+    for (const name of [element.name, ...Object.keys(element.attributes)]) {
+      const [prefix, local] = name.split(':')
+      if (prefix && local && prefix !== 'xmlns') {
+        used.add(prefix)
+      }
+    }
+  })
+
+  walkSvg(root, (element) => {
+    for (const name of Object.keys(element.attributes)) {
+      if (name.startsWith('xmlns:') && !used.has(name.slice(6))) {
+        delete element.attributes[name]
+      }
+    }
+  })
+}
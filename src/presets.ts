@@ -0,0 +1,159 @@
+import {WINDOWS_TILES} from './browserconfig.js'
+import type {FaviconIcon, FaviconPreset} from './types.js'
+
+/**
+ * The files and defaults that make up a preset
+ *
+ * @internal
+ */
+export interface PresetDefinition {
+  /**
+   * Whether the maskable icons are included in the web manifest
+   */
+  maskable: boolean
+
+  /**
+   * Whether Windows tiles are generated unless otherwise specified
+   */
+  windowsTiles: boolean
+
+  /**
+   * Additional PNG icons to generate, on top of the ones every preset includes
+   */
+  icons: FaviconIcon[]
+}
+
+/**
+ * Sets of files generated by each preset. Every preset includes `favicon.ico`, the SVG icon
+ * (for SVG sources), the apple touch icon and the 192x192 and 512x512 icons referenced by the
+ * web manifest.
+ *
+ * @internal
+ */
+export const PRESETS: Record<FaviconPreset, PresetDefinition> = {
+  minimal: {maskable: false, windowsTiles: false, icons: []},
+  pwa: {maskable: true, windowsTiles: false, icons: []},
+  'legacy-full': {
+    maskable: true,
+    windowsTiles: true,
+    icons: [{size: 16}, {size: 32}, {size: 96}],
+  },
+}
+
+/**
+ * Names of the files generated regardless of the additional icons, which icons can not use
+ */
+const BUILT_IN_NAMES = [
+  'favicon-512.png',
+  'favicon-192.png',
+  'apple-touch-icon.png',
+  'favicon.ico',
+  'maskable-192.png',
+  'maskable-512.png',
+  'manifest.webmanifest',
+  'favicon.svg',
+  'safari-pinned-tab.svg',
+  'browserconfig.xml',
+  ...WINDOWS_TILES.map((tile) => tile.name),
+]
+
+/**
+ * Image formats that additional icons can be generated in, mapped to their MIME types
+ */
+const ICON_FORMATS: Record<NonNullable<FaviconIcon['format']>, string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+}
+
+/**
+ * An additional icon, with defaults applied
+ *
+ * @internal
+ */
+export interface ResolvedIcon {
+  name: string
+  size: number
+  format: NonNullable<FaviconIcon['format']>
+  type: string
+}
+
+/**
+ * Validates the given preset name
+ *
+ * @param preset - The preset to validate
+ * @returns The validated preset
+ * @internal
+ */
+export function validatePreset(preset: unknown): FaviconPreset {
+  if (typeof preset !== 'string' || !Object.hasOwn(PRESETS, preset)) {
+    const names = Object.keys(PRESETS).map((name) => `"${name}"`)
+    throw new Error(`Invalid preset "${preset}" - must be one of ${names.join(', ')}`)
+  }
+  return preset as FaviconPreset
+}
+
+/**
+ * Validates the given additional icons, and applies the default name and format
+ *
+ * @param icons - The icons to validate
+ * @returns The validated icons
+ * @internal
+ */
+export function validateIcons(icons: unknown): ResolvedIcon[] {
+  if (!Array.isArray(icons)) {
+    throw new Error('Icons must be an array')
+  }
+
+  const resolved: ResolvedIcon[] = []
+  for (const icon of icons) {
+    if (typeof icon !== 'object' || icon === null || Array.isArray(icon)) {
+      throw new Error('Icons must be objects with a `size` and optional `name` and `format`')
+    }
+
+    const {size, format = 'png', name = `favicon-${size}.${format}`, ...rest} = icon as FaviconIcon
+    const [unknown] = Object.keys(rest)
+    if (unknown) {
+      throw new Error(`Unknown icon option "${unknown}"`)
+    }
+
+    if (typeof size !== 'number' || !Number.isInteger(size) || size < 1 || size > 1024) {
+      throw new Error(`Invalid icon size "${size}" - must be an integer between 1 and 1024`)
+    }
+
+    if (!Object.hasOwn(ICON_FORMATS, format)) {
+      const formats = Object.keys(ICON_FORMATS).map((value) => `"${value}"`)
+      throw new Error(`Invalid icon format "${format}" - must be one of ${formats.join(', ')}`)
+    }
+
+    if (typeof name !== 'string' || !/^[\w.-]+$/.test(name) || !name.endsWith(`.${format}`)) {
+      throw new Error(
+        `Invalid icon name "${name}" - must be a file name with a .${format} extension`,
+      )
+    }
+
+    if (BUILT_IN_NAMES.includes(name) || resolved.some((other) => other.name === name)) {
+      throw new Error(`Icon name "${name}" is already used by another file`)
+    }
+
+    resolved.push({name, size, format, type: ICON_FORMATS[format]})
+  }
+
+  return resolved
+}
+
+/**
+ * Gets the additional icons to generate for the given preset and custom icons. Custom icons
+ * replace preset icons of the same name.
+ *
+ * @param preset - The preset to use
+ * @param icons - Custom icons to add to the preset
+ * @returns The icons to generate
+ * @internal
+ */
+export function resolveIcons(preset: FaviconPreset, icons: unknown = []): ResolvedIcon[] {
+  const custom = validateIcons(icons)
+  const fromPreset = validateIcons(PRESETS[preset].icons).filter(
+    (icon) => !custom.some((other) => other.name === icon.name),
+  )
+  return [...fromPreset, ...custom]
+}
@@ -0,0 +1,377 @@
+/**
+ * Minimal, dependency-free SVG (XML) parser and serializer.
+ *
+ * Attribute values and text content are kept in their raw (escaped) form, so that
+ * serializing a parsed document gives the same output as the input, save for
+ * normalized whitespace within tags.
+ */
+
+/**
+ * An element within an SVG document
+ *
+ * @internal
+ */
+export interface SvgElement {
+  type: 'element'
+  name: string
+  attributes: Record<string, string>
+  children: SvgNode[]
+}
+
+/**
+ * Any non-element node within an SVG document - the value is the raw content of the node,
+ * eg the text between `<!--` and `-->` for comments
+ *
+ * @internal
+ */
+export interface SvgLeafNode {
+  type: 'text' | 'comment' | 'cdata' | 'instruction' | 'doctype'
+  value: string
+}
+
+/**
+ * @internal
+ */
+export type SvgNode = SvgElement | SvgLeafNode
+
+/**
+ * A parsed SVG document
+ *
+ * @internal
+ */
+export interface SvgDocument {
+  /**
+   * Nodes before the root element (XML declaration, doctype, comments, whitespace)
+   */
+  prolog: SvgLeafNode[]
+
+  /**
+   * The root `<svg>` element
+   */
+  root: SvgElement
+}
+
+const NAME_START = /[A-Za-z_:]/
+const NAME_CHAR = /[\w:.-]/
+
+/**
+ * Parses the given SVG document, throwing a descriptive error if it is malformed
+ *
+ * @param input - The SVG document to parse
+ * @param label - What to call the document in error messages (eg `dark mode SVG`)
+ * @returns The parsed document
+ * @internal
+ */
+export function parseSvg(input: string | Buffer, label = 'SVG'): SvgDocument {
+  const xml = (typeof input === 'string' ? input : input.toString('utf8')).replace(/^\uFEFF/, '')
+  const prolog: SvgLeafNode[] = []
+  const stack: SvgElement[] = []
+  let root: SvgElement | undefined
+  let pos = 0
+
+  function fail(message: string, at = pos): never {
+    const lines = xml.slice(0, at).split('\n')
+    const line = lines.length
+    const column = (lines.at(-1)?.length ?? 0) + 1
+    throw new Error(`Invalid ${label}: ${message} (line ${line}, column ${column})`)
+  }
+
+  function addNode(node: SvgNode) {
+    const parent = stack.at(-1)
+    if (parent) {
+      parent.children.push(node)
+      return
+    }
+
+    if (node.type === 'element') {
+      if (root) {
+        fail('document has more than one root element')
+      }
+      root = node
+      return
+    }
+
+    if (node.type === 'text' && node.value.trim() !== '') {
+      fail('text content outside of the root element')
+    }
+
+    if (node.type === 'cdata') {
+      fail('CDATA section outside of the root element')
+    }
+
+    // Anything trailing the root element is not preserved, it has no effect on rendering
+    if (!root) {
+      prolog.push(node)
+    }
+  }
+
+  function readUntil(terminator: string, what: string): string {
+    const end = xml.indexOf(terminator, pos)
+    if (end === -1) {
+      fail(`unterminated ${what}`)
+    }
+
+    const value = xml.slice(pos, end)
+    pos = end + terminator.length
+    return value
+  }
+
+  function readName(): string {
+    const start = pos
+    if (!NAME_START.test(xml[pos] ?? '')) {
+      fail(`expected a name, got ${describeChar(xml[pos])}`)
+    }
+
+    while (NAME_CHAR.test(xml[pos] ?? '')) {
+      pos++
+    }
+
+    return xml.slice(start, pos)
+  }
+
+  function skipWhitespace() {
+    while (/\s/.test(xml[pos] ?? '')) {
+      pos++
+    }
+  }
+
+  while (pos < xml.length) {
+    if (xml.startsWith('<!--', pos)) {
+      pos += 4
+      addNode({type: 'comment', value: readUntil('-->', 'comment')})
+    } else if (xml.startsWith('<![CDATA[', pos)) {
+      pos += 9
+      addNode({type: 'cdata', value: readUntil(']]>', 'CDATA section')})
+    } else if (xml.startsWith('<?', pos)) {
+      pos += 2
+      addNode({type: 'instruction', value: readUntil('?>', 'processing instruction')})
+    } else if (xml.startsWith('<!DOCTYPE', pos)) {
+      const start = pos
+      pos += 9
+      // The doctype may contain an internal subset in brackets, which can contain `>`
+      let depth = 0
+      while (pos < xml.length && (xml[pos] !== '>' || depth > 0)) {
+        depth += xml[pos] === '[' ? 1 : xml[pos] === ']' ? -1 : 0
+        pos++
+      }
+
+      if (pos >= xml.length) {
+        fail('unterminated doctype', start)
+      }
+
+      addNode({type: 'doctype', value: xml.slice(start + 9, pos++)})
+    } else if (xml.startsWith('</', pos)) {
+      const start = pos
+      pos += 2
+      const name = readName()
+      skipWhitespace()
+      if (xml[pos] !== '>') {
+        fail(`expected ">" to close end tag </${name}>`)
+      }
+      pos++
+
+      const open = stack.pop()
+      if (!open) {
+        fail(`unexpected closing tag </${name}>`, start)
+      }
+
+      if (open.name !== name) {
+        fail(`closing tag </${name}> does not match opening tag <${open.name}>`, start)
+      }
+    } else if (xml[pos] === '<') {
+      pos++
+      const element: SvgElement = {type: 'element', name: readName(), attributes: {}, children: []}
+
+      let selfClosing = false
+      for (;;) {
+        const hadWhitespace = /\s/.test(xml[pos] ?? '')
+        skipWhitespace()
+        if (xml[pos] === '>') {
+          pos++
+          break
+        }
+
+        if (xml.startsWith('/>', pos)) {
+          pos += 2
+          selfClosing = true
+          break
+        }
+
+        if (pos >= xml.length) {
+          fail(`unterminated tag <${element.name}>`)
+        }
+
+        if (!hadWhitespace) {
+          fail(`expected whitespace between attributes in <${element.name}>`)
+        }
+
+        const attrName = readName()
+        skipWhitespace()
+        if (xml[pos] !== '=') {
+          fail(`attribute "${attrName}" in <${element.name}> has no value`)
+        }
+        pos++
+        skipWhitespace()
+
+        const quote = xml[pos]
+        if (quote !== '"' && quote !== "'") {
+          fail(`value of attribute "${attrName}" in <${element.name}> must be quoted`)
+        }
+        pos++
+
+        const value = readUntil(quote, `attribute value for "${attrName}"`)
+        if (value.includes('<')) {
+          fail(`value of attribute "${attrName}" in <${element.name}> contains "<"`)
+        }
+
+        if (attrName in element.attributes) {
+          fail(`duplicate attribute "${attrName}" in <${element.name}>`)
+        }
+
+        element.attributes[attrName] = value
+      }
+
+      addNode(element)
+      if (!selfClosing) {
+        stack.push(element)
+      }
+    } else {
+      const end = xml.indexOf('<', pos)
+      const value = xml.slice(pos, end === -1 ? xml.length : end)
+      pos += value.length
+      addNode({type: 'text', value})
+    }
+  }
+
+  const unclosed = stack.at(-1)
+  if (unclosed) {
+    fail(`unclosed tag <${unclosed.name}>`)
+  }
+
+  if (!root) {
+    fail('no root element found')
+  }
+
+  if (root.name !== 'svg' && !root.name.endsWith(':svg')) {
+    fail(`root element must be <svg>, got <${root.name}>`, 0)
+  }
+
+  return {prolog, root}
+}
+
+/**
+ * Serializes the given SVG document (or element) back to a string
+ *
+ * @param node - The document or node to serialize
+ * @returns The serialized SVG
+ * @internal
+ */
+export function serializeSvg(node: SvgDocument | SvgNode): string {
+  if ('root' in node) {
+    return node.prolog.map(serializeSvg).join('') + serializeSvg(node.root)
+  }
+
+  switch (node.type) {
+    case 'text':
+      return node.value
+    case 'comment':
+      return `<!--${node.value}-->`
+    case 'cdata':
+      return `<![CDATA[${node.value}]]>`
+    case 'instruction':
+      return `<?${node.value}?>`
+    case 'doctype':
+      return `<!DOCTYPE${node.value}>`
+    default: {
+      const attrs = Object.entries(node.attributes)
+        .map(([name, value]) => ` ${name}="${value.replace(/"/g, '&quot;')}"`)
+        .join('')
+
+      return node.children.length === 0
+        ? `<${node.name}${attrs}/>`
+        : `<${node.name}${attrs}>${node.children.map(serializeSvg).join('')}</${node.name}>`
+    }
+  }
+}
+
+/**
+ * Calls the given visitor for the given element and all its descendant elements (depth first)
+ *
+ * @param element - The element to start at
+ * @param visitor - Function to call for each element, along with its parent (if any)
+ * @internal
+ */
+export function walkSvg(
+  element: SvgElement,
+  visitor: (element: SvgElement, parent: SvgElement | undefined) => void,
+  parent?: SvgElement,
+): void {
+  visitor(element, parent)
+  for (const child of element.children) {
+    if (child.type === 'element') {
+      walkSvg(child, visitor, element)
+    }
+  }
+}
+
+/**
+ * Gets the text content of the given element (eg CSS in a `<style>` element),
+ * including CDATA sections
+ *
+ * @param element - The element to get text content for
+ * @returns The text content
+ * @internal
+ */
+export function getTextContent(element: SvgElement): string {
+  return element.children
+    .map((child) => {
+      if (child.type === 'text' || child.type === 'cdata') {
+        return child.value
+      }
+      return child.type === 'element' ? getTextContent(child) : ''
+    })
+    .join('')
+}
+
+/**
+ * Gets the `viewBox` of the given root element, falling back to one derived from its width
+ * and height
+ *
+ * @param root - The root `<svg>` element
+ * @param label - What to call the document in error messages (eg `dark SVG`)
+ * @returns The view box, as a `viewBox` attribute value
+ * @internal
+ */
+export function getViewBox(root: SvgElement, label = 'SVG'): string {
+  const {viewBox, width, height} = root.attributes
+  if (viewBox) {
+    return viewBox
+  }
+
+  const w = parseFloat(width ?? '')
+  const h = parseFloat(height ?? '')
+  if (!w || !h) {
+    throw new Error(`The ${label} must have either a viewBox or a width and height`)
+  }
+
+  return `0 0 ${w} ${h}`
+}
+
+/**
+ * Escapes the given value for use in XML text content or (double-quoted) attribute values
+ *
+ * @param value - The value to escape
+ * @returns The escaped value
+ * @internal
+ */
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function describeChar(char: string | undefined): string {
+  return typeof char === 'undefined' ? 'end of input' : JSON.stringify(char)
+}
@@ -12,6 +12,21 @@ export interface FaviconOptions {
    */
   sourceFile: string | Buffer
 
+  /**
+   * A simplified variant of the source image (file path, URL or Buffer), used for icons of
+   * `smallSourceMaxSize` pixels or smaller - such as the 16x16 and 32x32 frames of
+   * `favicon.ico` - where the details of a complex logo would be illegible. Checked the same
+   * way as the source image, but only needs to be as large as `smallSourceMaxSize`.
+   */
+  smallSourceFile?: string | Buffer
+
+  /**
+   * Largest icon size (in pixels) to render from `smallSourceFile`.
+   *
+   * Defaults to `32`.
+   */
+  smallSourceMaxSize?: number
+
   /**
    * Whether or not to overwrite existing files.
    *
@@ -20,11 +35,13 @@ export interface FaviconOptions {
   overwrite?: boolean
 
   /**
-   * Whether or not to output a web manifest file.
+   * Whether or not to output a web manifest file. Pass an object to include additional
+   * manifest members (name, colors, display mode etc) - these are validated before
+   * anything is written.
    *
    * Defaults to `true`.
    */
-  manifest?: boolean
+  manifest?: boolean | WebManifestOptions
 
   /**
    * The output directory for the generated favicons.
@@ -41,12 +58,490 @@ export interface FaviconOptions {
    */
   warn?: typeof console.warn | false
 
+  /**
+   * Whether or not to treat warnings as errors. Pass an array of warning codes (eg
+   * `['NON_SQUARE_SOURCE']`) to only fail on those warnings. As files are checked before
+   * any are written, nothing is written if a warning fails the generation.
+   *
+   * Defaults to `false`.
+   */
+  failOnWarning?: boolean | FaviconWarningCode[]
+
   /**
    * Base path to use for printed HTML and web manifest files.
    *
    * Defaults to `/`.
    */
   basePath?: string
+
+  /**
+   * The sizes (in pixels) of the frames to include in the `favicon.ico` file.
+   * Each size must be an integer between 1 and 256. Frames of 256 pixels are
+   * stored as embedded PNGs, smaller frames as bitmaps.
+   *
+   * Defaults to `[16, 32, 48]`.
+   */
+  icoSizes?: number[]
+
+  /**
+   * Background color for the maskable icons (`maskable-192.png`, `maskable-512.png`),
+   * which have the artwork scaled into the 80% safe zone. Can be a named, hex, `rgb()`,
+   * `hsl()` or `hwb()` CSS color. Maskable icons are only generated along with the manifest.
+   *
+   * Defaults to `#ffffff`.
+   */
+  maskableBackground?: string
+
+  /**
+   * Options for the apple touch icon (`apple-touch-icon.png`). iOS shows transparent areas of
+   * the icon as black on the home screen, so a background color should be given for sources
+   * with transparency - a warning is printed otherwise.
+   *
+   * Defaults to the artwork scaled to the full size of the icon, without a background.
+   */
+  appleTouchIcon?: AppleTouchIconOptions
+
+  /**
+   * Draws a badge onto every icon, to tell environments (eg local, staging and production)
+   * apart - a bar with the given text along the bottom edge, or a dot in the bottom right
+   * corner if no text is given. Text is only drawn on icons of 48x48 pixels or larger, where
+   * it is legible - smaller icons (such as the `favicon.ico` frames) and the SVG icon, which
+   * is mostly shown at tab size, get the dot.
+   */
+  badge?: BadgeOptions
+
+  /**
+   * Adds dark mode support to the generated `favicon.svg` (only applies to SVG sources),
+   * through an embedded `<style>` element with `@media (prefers-color-scheme: dark)` rules.
+   *
+   * Either a dark variant of the source SVG (file path, URL or Buffer), which is shown
+   * instead of the source when a dark color scheme is preferred, or a mapping of light
+   * colors to the dark colors that should replace them (eg `{'#000': '#fff'}`).
+   */
+  darkMode?: string | Buffer | Record<string, string>
+
+  /**
+   * Whether or not to minify the generated `favicon.svg` (only applies to SVG sources), by
+   * removing comments, metadata, editor-specific markup, unused definitions and excessive
+   * number precision - none of which affect how the icon renders.
+   *
+   * Defaults to `true`.
+   */
+  optimizeSvg?: boolean
+
+  /**
+   * Whether or not to include a short hash of the content in the file names, for cache
+   * busting (eg `favicon-512.3fa2c1d.png`). The generated HTML and web manifest reference
+   * the hashed names, and the `fileNames` property of the result maps the regular
+   * ("logical") names to the hashed ones.
+   *
+   * Defaults to `false`.
+   */
+  hash?: boolean
+
+  /**
+   * Path to an HTML file to inject the favicon tags into. Existing icon, apple-touch-icon
+   * and manifest `<link>` tags in its `<head>` are replaced by the generated ones, using the
+   * indentation of the file. Injecting is idempotent - unchanged tags leave the file untouched.
+   * Throws (before writing any files) if the file has no `<head>` element.
+   *
+   * Ignored when `write` is `false`.
+   */
+  inject?: string
+
+  /**
+   * Color of the Safari pinned tab icon, as a CSS color. When specified (and the source is an
+   * SVG), a single-color silhouette of the source is generated as `safari-pinned-tab.svg`,
+   * and a `<link rel="mask-icon">` tag is included in the HTML.
+   */
+  maskIcon?: string
+
+  /**
+   * Color of the browser UI (eg the address bar on mobile), as a CSS color. Included in the
+   * HTML as a `<meta name="theme-color">` tag.
+   *
+   * Defaults to the `themeColor` of the web manifest, if any.
+   */
+  themeColor?: string
+
+  /**
+   * Color of the browser UI when the user prefers a dark color scheme, as a CSS color.
+   * Included in the HTML as a `<meta name="theme-color">` tag with a
+   * `media="(prefers-color-scheme: dark)"` attribute.
+   */
+  darkThemeColor?: string
+
+  /**
+   * Whether to generate tiles for pinned sites on Windows: `mstile-70x70.png`,
+   * `mstile-150x150.png`, `mstile-310x150.png` and `mstile-310x310.png`, along with a
+   * `browserconfig.xml` file referencing them. The `msapplication-config` and
+   * `msapplication-TileColor` meta tags are included in the HTML.
+   *
+   * Defaults to `true` for the `legacy-full` preset, `false` otherwise.
+   */
+  windowsTiles?: boolean
+
+  /**
+   * The set of files to generate:
+   *
+   * - `minimal` - `favicon.ico`, the SVG icon (for SVG sources), the apple touch icon and the
+   *   192x192 and 512x512 icons referenced by the web manifest
+   * - `pwa` - everything in `minimal`, plus maskable icons in the web manifest
+   * - `legacy-full` - everything in `pwa`, plus 16x16, 32x32 and 96x96 PNG icons and Windows
+   *   tiles, for older browsers and devices
+   *
+   * Defaults to `pwa`.
+   */
+  preset?: FaviconPreset
+
+  /**
+   * Additional icons to generate on top of the preset, such as a 128x128 icon for the Chrome
+   * Web Store. The icons are included in the HTML (as `<link rel="icon">` tags with `sizes`
+   * and `type`) and in the web manifest.
+   */
+  icons?: FaviconIcon[]
+
+  /**
+   * Background color of the Windows tiles, as a CSS color. Only used if `windowsTiles` is
+   * enabled.
+   *
+   * Defaults to the theme color, if any - otherwise `#ffffff`.
+   */
+  tileColor?: string
+
+  /**
+   * Format of the head snippet returned as the `snippet` property of the result:
+   *
+   * - `html` - `<link>` tags (same as the `html` property)
+   * - `jsx` - a JSX fragment containing `<link />` elements
+   * - `json` - a JSON array of link descriptors (`{rel, href, type, sizes}`)
+   * - `next-metadata` - a JSON object with the `icons` and `manifest` fields of the
+   *   Next.js Metadata API
+   *
+   * Defaults to `html`.
+   */
+  format?: SnippetFormat
+
+  /**
+   * Whether or not to write the generated files to the output directory.
+   * When `false`, nothing is written to disk (and no output directory is created) -
+   * the generated files are only returned in memory, as the `files` property of the result.
+   *
+   * Defaults to `true`.
+   */
+  write?: boolean
+
+  /**
+   * Whether or not to only plan what would be written. All images are still loaded, validated
+   * and rendered, but nothing is written to disk - the `plan` property of the result tells
+   * which files would be created, overwritten or skipped.
+   *
+   * Defaults to `false`.
+   */
+  dryRun?: boolean
+
+  /**
+   * Bundle the generated files into a single archive instead of writing them to the output
+   * directory. The archive contains every generated file, along with the HTML tags in a
+   * `head.html` file, and is returned as the `archive` property of the result - as well as
+   * written to the given `file`, if any.
+   */
+  archive?: ArchiveOptions
+}
+
+/**
+ * Options that can be specified in a CLI configuration file (`favicon.config.json`,
+ * `favicon.config.js`, `favicon.config.ts` or a `"favicon"` key in `package.json`).
+ *
+ * Relative paths are resolved from the directory containing the configuration file.
+ * Flags passed to the CLI take precedence over values in the configuration file.
+ *
+ * @public
+ */
+export interface FaviconConfig {
+  /**
+   * The source image to use for the favicon - a file path or a URL
+   */
+  sourceFile?: string
+
+  /**
+   * See {@link FaviconOptions.smallSourceFile}
+   */
+  smallSourceFile?: string
+
+  /**
+   * See {@link FaviconOptions.smallSourceMaxSize}
+   */
+  smallSourceMaxSize?: FaviconOptions['smallSourceMaxSize']
+
+  /**
+   * The output directory for the generated favicons
+   */
+  outputDir?: string
+
+  /**
+   * Whether or not to print warnings
+   */
+  warn?: boolean
+
+  /**
+   * See {@link FaviconOptions.failOnWarning}
+   */
+  failOnWarning?: FaviconOptions['failOnWarning']
+
+  /**
+   * See {@link FaviconOptions.overwrite}
+   */
+  overwrite?: FaviconOptions['overwrite']
+
+  /**
+   * See {@link FaviconOptions.manifest}
+   */
+  manifest?: FaviconOptions['manifest']
+
+  /**
+   * See {@link FaviconOptions.basePath}
+   */
+  basePath?: FaviconOptions['basePath']
+
+  /**
+   * See {@link FaviconOptions.icoSizes}
+   */
+  icoSizes?: FaviconOptions['icoSizes']
+
+  /**
+   * See {@link FaviconOptions.maskableBackground}
+   */
+  maskableBackground?: FaviconOptions['maskableBackground']
+
+  /**
+   * See {@link FaviconOptions.appleTouchIcon}
+   */
+  appleTouchIcon?: FaviconOptions['appleTouchIcon']
+
+  /**
+   * See {@link FaviconOptions.badge}
+   */
+  badge?: FaviconOptions['badge']
+
+  /**
+   * Either a dark variant of the source SVG (file path or URL), or a mapping of light colors
+   * to dark colors. See {@link FaviconOptions.darkMode}
+   */
+  darkMode?: string | Record<string, string>
+
+  /**
+   * See {@link FaviconOptions.optimizeSvg}
+   */
+  optimizeSvg?: FaviconOptions['optimizeSvg']
+
+  /**
+   * See {@link FaviconOptions.hash}
+   */
+  hash?: FaviconOptions['hash']
+
+  /**
+   * See {@link FaviconOptions.inject}
+   */
+  inject?: FaviconOptions['inject']
+
+  /**
+   * See {@link FaviconOptions.format}
+   */
+  format?: FaviconOptions['format']
+
+  /**
+   * See {@link FaviconOptions.maskIcon}
+   */
+  maskIcon?: FaviconOptions['maskIcon']
+
+  /**
+   * See {@link FaviconOptions.themeColor}
+   */
+  themeColor?: FaviconOptions['themeColor']
+
+  /**
+   * See {@link FaviconOptions.darkThemeColor}
+   */
+  darkThemeColor?: FaviconOptions['darkThemeColor']
+
+  /**
+   * See {@link FaviconOptions.windowsTiles}
+   */
+  windowsTiles?: FaviconOptions['windowsTiles']
+
+  /**
+   * See {@link FaviconOptions.tileColor}
+   */
+  tileColor?: FaviconOptions['tileColor']
+
+  /**
+   * See {@link FaviconOptions.preset}
+   */
+  preset?: FaviconOptions['preset']
+
+  /**
+   * See {@link FaviconOptions.icons}
+   */
+  icons?: FaviconOptions['icons']
+}
+
+/**
+ * Options for the Vite plugin. Takes the same options as {@link FaviconOptions}, except for
+ * those that Vite controls: files are emitted as build assets rather than written to an
+ * output directory, the base path is taken from Vite's `base` option, and the tags are
+ * injected into `index.html` by the plugin.
+ *
+ * @public
+ */
+export type FaviconPluginOptions = Omit<
+  FaviconOptions,
+  'outputDir' | 'overwrite' | 'write' | 'dryRun' | 'archive' | 'basePath' | 'inject' | 'format'
+>
+
+/**
+ * Options for the favicon middleware. Takes the same options as {@link FaviconOptions},
+ * except for those related to writing files, since the files are only held in memory.
+ *
+ * @public
+ */
+export interface FaviconMiddlewareOptions extends Omit<
+  FaviconOptions,
+  'outputDir' | 'overwrite' | 'write' | 'dryRun' | 'archive' | 'inject' | 'format'
+> {
+  /**
+   * Value of the `Cache-Control` header of the served files.
+   *
+   * Defaults to `public, max-age=3600`, or `public, max-age=31536000, immutable` if `hash`
+   * is enabled.
+   */
+  cacheControl?: string
+}
+
+/**
+ * Additional members to include in the generated web manifest.
+ * See https://developer.mozilla.org/en-US/docs/Web/Manifest for details on each member.
+ *
+ * @public
+ */
+export interface WebManifestOptions {
+  /**
+   * The name of the web application (`name`)
+   */
+  name?: string
+
+  /**
+   * Short version of the name, for use where space is limited (`short_name`)
+   */
+  shortName?: string
+
+  /**
+   * Description of what the web application does (`description`)
+   */
+  description?: string
+
+  /**
+   * Unique identifier for the web application (`id`)
+   */
+  id?: string
+
+  /**
+   * The URL to load when the web application is launched (`start_url`)
+   */
+  startUrl?: string
+
+  /**
+   * The navigation scope of the web application (`scope`)
+   */
+  scope?: string
+
+  /**
+   * The preferred display mode of the web application (`display`)
+   */
+  display?: 'fullscreen' | 'standalone' | 'minimal-ui' | 'browser'
+
+  /**
+   * The default orientation of the web application (`orientation`)
+   */
+  orientation?:
+    | 'any'
+    | 'natural'
+    | 'landscape'
+    | 'landscape-primary'
+    | 'landscape-secondary'
+    | 'portrait'
+    | 'portrait-primary'
+    | 'portrait-secondary'
+
+  /**
+   * Default theme color of the web application, as a CSS color (`theme_color`)
+   */
+  themeColor?: string
+
+  /**
+   * Background color of the splash screen, as a CSS color (`background_color`)
+   */
+  backgroundColor?: string
+
+  /**
+   * Primary language of the manifest members, as a language tag such as `en-US` (`lang`)
+   */
+  lang?: string
+
+  /**
+   * Base text direction of the manifest members (`dir`)
+   */
+  dir?: 'ltr' | 'rtl' | 'auto'
+}
+
+/**
+ * Options for the environment badge drawn onto the icons
+ *
+ * @public
+ */
+export interface BadgeOptions {
+  /**
+   * Short text to show on the badge, eg `DEV`. Leave out to draw a dot instead.
+   */
+  text?: string
+
+  /**
+   * Background color of the badge. Can be a named, hex, `rgb()`, `hsl()` or `hwb()` CSS color.
+   *
+   * Defaults to `#e11`.
+   */
+  color?: string
+
+  /**
+   * Color of the text (and of the ring around the dot). Can be a named, hex, `rgb()`, `hsl()`
+   * or `hwb()` CSS color.
+   *
+   * Defaults to `#fff`.
+   */
+  textColor?: string
+}
+
+/**
+ * Options for the apple touch icon
+ *
+ * @public
+ */
+export interface AppleTouchIconOptions {
+  /**
+   * Background color to flatten the icon onto. Can be a named, hex, `rgb()`, `hsl()` or
+   * `hwb()` CSS color.
+   *
+   * Defaults to none (transparent areas are kept).
+   */
+  background?: string
+
+  /**
+   * Space around the artwork on each side, as a percentage of the icon size - eg `10` scales
+   * the artwork to 80% of the icon, centered. Must be at least 0 and less than 50.
+   *
+   * Defaults to `0`.
+   */
+  padding?: number
 }
 
 /**
@@ -60,4 +555,538 @@ export interface FaviconResult {
    * Note: You may need to adjust paths (use `basePath` option to programatically do so).
    */
   html: string
+
+  /**
+   * The tags for the `<head>` of your HTML document, in the format given by the `format`
+   * option. All formats are generated from the same tags (see `links` and `meta`).
+   */
+  snippet: string
+
+  /**
+   * The links to place in the `<head>` of your HTML document
+   */
+  links: HeadLink[]
+
+  /**
+   * The meta tags to place in the `<head>` of your HTML document
+   */
+  meta: HeadMeta[]
+
+  /**
+   * The generated files, in the order they were generated.
+   * Note that this includes files that were skipped because they already existed on disk.
+   */
+  files: FaviconFile[]
+
+  /**
+   * Mapping of logical file names (eg `favicon-512.png`) to the names of the generated files,
+   * which differ when the `hash` option is enabled (eg `favicon-512.3fa2c1d.png`)
+   */
+  fileNames: Record<string, string>
+
+  /**
+   * What was done (or, with the `dryRun` option, would be done) with each file on disk: the
+   * generated files, followed by the HTML file of the `inject` option, if given.
+   * Not present when the `write` option is disabled.
+   */
+  plan?: FilePlanEntry[]
+
+  /**
+   * The warnings emitted while generating the favicons, in the order they were emitted.
+   * Collected even if printing warnings is disabled with the `warn` option.
+   */
+  warnings: FaviconWarning[]
+
+  /**
+   * Metadata of the (main) source image
+   */
+  source: SourceImageInfo
+
+  /**
+   * The archive of the generated files. Only present when the `archive` option is given.
+   */
+  archive?: Buffer
+
+  /**
+   * Byte sizes of `favicon.svg` before and after optimization.
+   * Only present when an SVG was generated with the `optimizeSvg` option enabled.
+   */
+  svgOptimization?: SvgOptimizationResult
+}
+
+/**
+ * Byte sizes of the generated SVG before and after optimization
+ *
+ * @public
+ */
+export interface SvgOptimizationResult {
+  /**
+   * Size (in bytes) of the SVG before optimization
+   */
+  originalSize: number
+
+  /**
+   * Size (in bytes) of the SVG after optimization
+   */
+  optimizedSize: number
+}
+
+/**
+ * Options for checking an existing set of favicons
+ *
+ * @public
+ */
+export interface CheckFaviconsOptions {
+  /**
+   * The directory containing the favicons to check
+   */
+  outputDir: string
+
+  /**
+   * Base path the favicons are served from, used to resolve the paths in the web manifest
+   * and HTML file.
+   *
+   * Defaults to `/`.
+   */
+  basePath?: string
+
+  /**
+   * Whether or not the set should include a web manifest (and the maskable icons it
+   * references).
+   *
+   * Defaults to `true`.
+   */
+  manifest?: boolean
+
+  /**
+   * Whether or not the set should include an SVG favicon (only generated for SVG sources).
+   *
+   * Defaults to `true`.
+   */
+  svg?: boolean
+
+  /**
+   * The sizes (in pixels) of the frames expected in the `favicon.ico` file.
+   *
+   * Defaults to `[16, 32, 48]`.
+   */
+  icoSizes?: number[]
+
+  /**
+   * Whether or not the set should include a Safari pinned tab icon (`safari-pinned-tab.svg`).
+   *
+   * Defaults to `false`.
+   */
+  maskIcon?: boolean
+
+  /**
+   * Whether Windows tiles and `browserconfig.xml` are expected in the set.
+   *
+   * Defaults to `true` for the `legacy-full` preset, `false` otherwise.
+   */
+  windowsTiles?: boolean
+
+  /**
+   * The preset the set was generated with. See {@link FaviconOptions.preset}
+   *
+   * Defaults to `pwa`.
+   */
+  preset?: FaviconPreset
+
+  /**
+   * Additional icons expected in the set. See {@link FaviconOptions.icons}
+   */
+  icons?: FaviconIcon[]
+
+  /**
+   * Path to an HTML file whose favicon `<link>` tags should match the set
+   */
+  html?: string
+}
+
+/**
+ * A problem found when checking a set of favicons
+ *
+ * @public
+ */
+export interface CheckIssue {
+  /**
+   * Name of the file the issue concerns (relative to the output directory, or the path of
+   * the HTML file)
+   */
+  file: string
+
+  /**
+   * Human readable description of the issue
+   */
+  message: string
+}
+
+/**
+ * The result of checking a set of favicons
+ *
+ * @public
+ */
+export interface CheckResult {
+  /**
+   * Whether or not the set is complete and correct (eg no issues were found)
+   */
+  ok: boolean
+
+  /**
+   * The issues found, if any
+   */
+  issues: CheckIssue[]
+
+  /**
+   * Names of the files that were checked
+   */
+  files: string[]
+}
+
+/**
+ * Sets of files that can be generated. See {@link FaviconOptions.preset}
+ *
+ * @public
+ */
+export type FaviconPreset = 'minimal' | 'pwa' | 'legacy-full'
+
+/**
+ * An additional icon to generate
+ *
+ * @public
+ */
+export interface FaviconIcon {
+  /**
+   * Width and height of the icon, in pixels
+   */
+  size: number
+
+  /**
+   * Image format of the icon.
+   *
+   * Defaults to `png`.
+   */
+  format?: 'png' | 'webp'
+
+  /**
+   * File name of the icon.
+   *
+   * Defaults to `favicon-<size>.<format>`, eg `favicon-96.png`.
+   */
+  name?: string
+}
+
+/**
+ * Formats the head snippet can be generated in
+ *
+ * @public
+ */
+export type SnippetFormat = 'html' | 'jsx' | 'json' | 'next-metadata'
+
+/**
+ * A `<link>` tag to place in the `<head>` of the HTML document
+ *
+ * @public
+ */
+export interface HeadLink {
+  /**
+   * The relationship of the linked file (eg `icon`, `apple-touch-icon`, `manifest`)
+   */
+  rel: string
+
+  /**
+   * URL of the linked file, including the base path
+   */
+  href: string
+
+  /**
+   * MIME type of the linked file (eg `image/svg+xml`)
+   */
+  type?: string
+
+  /**
+   * Sizes of the icon (eg `any` for the ICO file)
+   */
+  sizes?: string
+
+  /**
+   * Color of the icon (only used for `mask-icon`)
+   */
+  color?: string
+}
+
+/**
+ * A `<meta>` tag to place in the `<head>` of the HTML document
+ *
+ * @public
+ */
+export interface HeadMeta {
+  /**
+   * Name of the metadata (eg `theme-color`)
+   */
+  name: string
+
+  /**
+   * Value of the metadata
+   */
+  content: string
+
+  /**
+   * Media query the metadata applies to (eg `(prefers-color-scheme: dark)`)
+   */
+  media?: string
+}
+
+/**
+ * A file generated by the favicon generator
+ *
+ * @public
+ */
+export interface FaviconFile {
+  /**
+   * The file name, relative to the output directory (eg `favicon-512.png`)
+   */
+  name: string
+
+  /**
+   * The contents of the file
+   */
+  buffer: Buffer
+
+  /**
+   * The MIME type of the file (eg `image/png`)
+   */
+  mimeType: string
+
+  /**
+   * Width of the image, in pixels. For ICO files, this is the size of the largest frame.
+   * Not set for non-image files, such as the web manifest.
+   */
+  width?: number
+
+  /**
+   * Height of the image, in pixels. For ICO files, this is the size of the largest frame.
+   * Not set for non-image files, such as the web manifest.
+   */
+  height?: number
+}
+
+/**
+ * Codes of the warnings that can be emitted while generating favicons:
+ *
+ * - `NON_SVG_SOURCE` - the source image is not an SVG, so no SVG icons are generated
+ * - `NON_SQUARE_SOURCE` - a source image is not square, and is padded to a square
+ * - `TRANSPARENT_APPLE_TOUCH_ICON` - the apple touch icon has transparent areas, which iOS
+ *   shows as black, and no background color is set
+ * - `DARK_MODE_COLORS_NOT_FOUND` - none of the dark mode colors were found in the source SVG
+ * - `SVG_OPTIMIZATION_FAILED` - the SVG icon could not be minified, and is used as-is
+ * - `MASK_ICON_FAILED` - the Safari pinned tab icon could not be created
+ * - `FILE_EXISTS_SKIPPED` - a file already exists, and is left as-is
+ * - `FILE_EXISTS_REPLACED` - a file already exists, and is replaced
+ *
+ * @public
+ */
+export type FaviconWarningCode =
+  | 'NON_SVG_SOURCE'
+  | 'NON_SQUARE_SOURCE'
+  | 'TRANSPARENT_APPLE_TOUCH_ICON'
+  | 'DARK_MODE_COLORS_NOT_FOUND'
+  | 'SVG_OPTIMIZATION_FAILED'
+  | 'MASK_ICON_FAILED'
+  | 'FILE_EXISTS_SKIPPED'
+  | 'FILE_EXISTS_REPLACED'
+
+/**
+ * A warning emitted while generating favicons
+ *
+ * @public
+ */
+export interface FaviconWarning {
+  /**
+   * Stable code identifying the kind of warning
+   */
+  code: FaviconWarningCode
+
+  /**
+   * Human-readable description of the warning
+   */
+  message: string
+
+  /**
+   * Name of the generated file the warning concerns, if any (eg `favicon.svg`)
+   */
+  file?: string
+}
+
+/**
+ * Formats that generated files can be bundled into
+ *
+ * @public
+ */
+export type ArchiveFormat = 'zip' | 'tar'
+
+/**
+ * Options for bundling the generated files into an archive
+ *
+ * @public
+ */
+export interface ArchiveOptions {
+  /**
+   * Format of the archive.
+   *
+   * Defaults to the format matching the extension of `file` (`.zip` or `.tar`), or `zip`.
+   */
+  format?: ArchiveFormat
+
+  /**
+   * Path to write the archive to. Existing files are only replaced if the `overwrite` option
+   * is enabled. If not given, the archive is only returned as part of the result.
+   */
+  file?: string
+}
+
+/**
+ * Codes of the errors thrown while generating favicons (as {@link FaviconError}s):
+ *
+ * - `INVALID_OPTION` - an option (or CLI flag) is missing or invalid
+ * - `INVALID_CONFIG` - the configuration file could not be loaded, or is invalid
+ * - `SOURCE_UNAVAILABLE` - a source image could not be read or downloaded
+ * - `INVALID_SOURCE` - a source image could not be decoded, or is too small
+ * - `INVALID_HTML` - the HTML file of the `inject` option could not be read, or has no `<head>`
+ * - `WARNING_AS_ERROR` - a warning was emitted that the `failOnWarning` option treats as an error
+ *
+ * @public
+ */
+export type FaviconErrorCode =
+  | 'INVALID_OPTION'
+  | 'INVALID_CONFIG'
+  | 'SOURCE_UNAVAILABLE'
+  | 'INVALID_SOURCE'
+  | 'INVALID_HTML'
+  | 'WARNING_AS_ERROR'
+
+/**
+ * Metadata of a source image
+ *
+ * @public
+ */
+export interface SourceImageInfo {
+  /**
+   * Format of the image, as detected by sharp (eg `svg` or `png`)
+   */
+  format?: string
+
+  /**
+   * Width of the image, in pixels
+   */
+  width: number
+
+  /**
+   * Height of the image, in pixels
+   */
+  height: number
+
+  /**
+   * Size of the image file, in bytes
+   */
+  size: number
+}
+
+/**
+ * What is done with a file on disk when writing the generated files
+ *
+ * @public
+ */
+export interface FilePlanEntry {
+  /**
+   * Absolute path of the file
+   */
+  path: string
+
+  /**
+   * - `create` - the file does not exist yet, and is written
+   * - `overwrite` - the file exists, and is replaced (requires the `overwrite` option, except
+   *   for the HTML file of the `inject` option)
+   * - `skip` - the file exists and is left as-is, as the `overwrite` option is disabled (or
+   *   the injected HTML file is already up to date)
+   */
+  action: 'create' | 'overwrite' | 'skip'
+
+  /**
+   * Width of the image, in pixels. Not set for non-image files.
+   */
+  width?: number
+
+  /**
+   * Height of the image, in pixels. Not set for non-image files.
+   */
+  height?: number
+
+  /**
+   * Size of the generated content, in bytes
+   */
+  size: number
+}
+
+/**
+ * A frame to encode into an ICO file, given as raw pixel data
+ *
+ * @public
+ */
+export interface IcoFrame {
+  /**
+   * Width of the frame, in pixels (1-256)
+   */
+  width: number
+
+  /**
+   * Height of the frame, in pixels (1-256)
+   */
+  height: number
+
+  /**
+   * Pixel data - 4 bytes (red, green, blue, alpha) per pixel, starting at the top left corner
+   */
+  data: Uint8Array
+
+  /**
+   * How to store the frame within the ICO file.
+   *
+   * Defaults to `png` for frames 256 pixels or larger, `bmp` otherwise.
+   */
+  format?: 'bmp' | 'png'
+}
+
+/**
+ * A frame decoded from an ICO file
+ *
+ * @public
+ */
+export interface DecodedIcoFrame {
+  /**
+   * Width of the frame, in pixels
+   */
+  width: number
+
+  /**
+   * Height of the frame, in pixels
+   */
+  height: number
+
+  /**
+   * Number of bits per pixel the frame was stored with (eg `32` for RGBA)
+   */
+  bitDepth: number
+
+  /**
+   * Whether the frame was stored as a bitmap or an embedded PNG
+   */
+  format: 'bmp' | 'png'
+
+  /**
+   * Decoded pixel data - 4 bytes (red, green, blue, alpha) per pixel,
+   * starting at the top left corner
+   */
+  data: Buffer
 }
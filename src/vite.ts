@@ -0,0 +1,121 @@
+import {resolve as resolvePath} from 'node:path'
+import type {Plugin, ResolvedConfig} from 'vite'
+import {createFavicon} from './favicon.js'
+import {injectFaviconTags} from './inject.js'
+import {findFaviconFile} from './middleware.js'
+import type {FaviconPluginOptions, FaviconResult} from './types.js'
+
+export type {FaviconPluginOptions} from './types.js'
+
+/**
+ * Vite plugin that generates favicons from a source image. In builds, the favicons are
+ * emitted as assets in the root of the output directory. In the dev server, they are served
+ * from memory and regenerated when the source file changes. In both cases, the favicon tags
+ * are injected into the `<head>` of `index.html`, replacing any existing ones.
+ *
+ * Relative paths in the options are resolved from Vite's `root`, and Vite's `base` is used as
+ * the base path of the tags and web manifest.
+ *
+ * @param options - Options for the favicon generator
+ * @returns A Vite plugin
+ * @public
+ */
+export function favicon(options: FaviconPluginOptions): Plugin {
+  let config: ResolvedConfig
+  let result: FaviconResult | undefined
+
+  async function generate(): Promise<FaviconResult> {
+    const {sourceFile, smallSourceFile, darkMode} = options
+    result = await createFavicon({
+      ...options,
+      sourceFile: resolveFromRoot(sourceFile, config.root),
+      smallSourceFile: resolveFromRoot(smallSourceFile, config.root),
+      darkMode: resolveFromRoot(darkMode, config.root),
+      basePath: config.base,
+      warn: options.warn ?? ((...data: unknown[]) => config.logger.warn(data.join(' '))),
+      write: false,
+    })
+    return result
+  }
+
+  return {
+    name: 'create-favicon',
+
+    configResolved(resolvedConfig) {
+      config = resolvedConfig
+    },
+
+    async buildStart() {
+      const {files} = await generate()
+      for (const path of getSourcePaths(options, config.root)) {
+        this.addWatchFile(path)
+      }
+
+      if (config.command !== 'build' || config.build.ssr) {
+        return
+      }
+
+      for (const file of files) {
+        this.emitFile({type: 'asset', fileName: file.name, source: file.buffer})
+      }
+    },
+
+    configureServer(server) {
+      const sourcePaths = getSourcePaths(options, config.root)
+      server.watcher.add(sourcePaths)
+      server.watcher.on('change', (path) => {
+        if (!sourcePaths.includes(resolvePath(path))) {
+          return
+        }
+
+        // Keep serving the previous favicons if the source is invalid (eg mid-save)
+        generate().then(
+          () => server.ws.send({type: 'full-reload', path: '*'}),
+          (err: unknown) => {
+            const message = err instanceof Error ? err.message : `${err}`
+            config.logger.error(`Failed to generate favicons: ${message}`)
+          },
+        )
+      })
+
+      server.middlewares.use((req, res, next) => {
+        const file = result && findFaviconFile(result.files, req.url, config.base)
+        if (!file) {
+          next()
+          return
+        }
+
+        res.setHeader('Content-Type', file.mimeType)
+        res.setHeader('Cache-Control', 'no-cache')
+        res.end(file.buffer)
+      })
+    },
+
+    transformIndexHtml: {
+      // Run after Vite has processed the document, as the tags already include the base path
+      order: 'post',
+      async handler(html, ctx) {
+        const {html: tags} = result ?? (await generate())
+        return injectFaviconTags(html, tags, `"${ctx.path}"`)
+      },
+    },
+  }
+}
+
+/**
+ * Resolves the given file path from the Vite root. URLs, buffers and color mappings are
+ * returned as-is.
+ */
+function resolveFromRoot<T>(value: T, root: string): T | string {
+  return typeof value === 'string' && !/^https?:\/\//.test(value) ? resolvePath(root, value) : value
+}
+
+/**
+ * Gets the absolute paths of the local source files (main source, small variant and dark
+ * variant), which should trigger a regeneration when changed
+ */
+function getSourcePaths(options: FaviconPluginOptions, root: string): string[] {
+  return [options.sourceFile, options.smallSourceFile, options.darkMode]
+    .filter((value): value is string => typeof value === 'string' && !/^https?:\/\//.test(value))
+    .map((path) => resolvePath(root, path))
+}
@@ -0,0 +1,59 @@
+import {FaviconError} from './errors.js'
+import type {FaviconWarning, FaviconWarningCode} from './types.js'
+
+/**
+ * The warnings that can be emitted while generating favicons, by code. Codes are stable across
+ * versions, so that they can be matched on (or made fatal with the `failOnWarning` option),
+ * while the messages may change.
+ *
+ * @internal
+ */
+export const WARNING_CODES: Record<FaviconWarningCode, string> = {
+  NON_SVG_SOURCE: 'The source image is not an SVG, so no SVG icons are generated',
+  NON_SQUARE_SOURCE: 'A source image is not square, and is padded to a square',
+  TRANSPARENT_APPLE_TOUCH_ICON: 'The apple touch icon has transparent areas and no background',
+  DARK_MODE_COLORS_NOT_FOUND: 'None of the dark mode colors were found in the source SVG',
+  SVG_OPTIMIZATION_FAILED: 'The SVG icon could not be minified, and is used as-is',
+  MASK_ICON_FAILED: 'The Safari pinned tab icon could not be created',
+  FILE_EXISTS_SKIPPED: 'A file already exists in the output directory, and is not replaced',
+  FILE_EXISTS_REPLACED: 'A file already exists in the output directory, and is replaced',
+}
+
+/**
+ * Validates the given `failOnWarning` option
+ *
+ * @param value - The value to validate
+ * @returns The codes of the warnings to treat as errors
+ * @internal
+ */
+export function validateFailOnWarning(value: unknown): FaviconWarningCode[] {
+  const codes = Object.keys(WARNING_CODES) as FaviconWarningCode[]
+  if (typeof value === 'boolean') {
+    return value ? codes : []
+  }
+
+  if (!Array.isArray(value)) {
+    throw new Error('Fail on warning must be a boolean or an array of warning codes')
+  }
+
+  for (const code of value) {
+    if (!codes.includes(code)) {
+      const names = codes.map((name) => `"${name}"`)
+      throw new Error(`Unknown warning code "${code}" - must be one of ${names.join(', ')}`)
+    }
+  }
+
+  return value
+}
+
+/**
+ * Formats the error thrown for a warning that is treated as an error
+ *
+ * @param warning - The warning
+ * @returns The error
+ * @internal
+ */
+export function getWarningError(warning: FaviconWarning): FaviconError {
+  const message = `${warning.message} (${warning.code} warning treated as an error)`
+  return new FaviconError('WARNING_AS_ERROR', message, {warning})
+}
@@ -0,0 +1,143 @@
+import {watch, type FSWatcher} from 'node:fs'
+import {mkdir, readFile, writeFile} from 'node:fs/promises'
+import {dirname, join as joinPath, resolve as resolvePath} from 'node:path'
+import type {FaviconFile} from './types.js'
+
+/**
+ * A watcher for a set of files, created by {@link watchFiles}
+ *
+ * @internal
+ */
+export interface FileWatcher {
+  /**
+   * Replaces the set of files being watched
+   */
+  setFiles(files: string[]): void
+
+  /**
+   * Stops watching all files
+   */
+  close(): void
+}
+
+/**
+ * Creates a file watcher that calls the given function (debounced) when any of the watched
+ * files change. Parent directories are watched rather than the files themselves, since many
+ * editors save by writing a temporary file and renaming it over the original.
+ *
+ * @param onChange - Function to call with the paths of the files that changed
+ * @param debounceMs - Milliseconds to wait for further changes before calling `onChange`
+ * @returns A file watcher, initially watching no files
+ * @internal
+ */
+export function watchFiles(onChange: (changed: string[]) => void, debounceMs = 100): FileWatcher {
+  const watchers = new Map<string, FSWatcher>()
+  const changed = new Set<string>()
+  let files = new Set<string>()
+  let timer: NodeJS.Timeout | undefined
+
+  function onEvent(dir: string, fileName: string | null) {
+    const path = fileName ? joinPath(dir, fileName) : undefined
+    if (!path || !files.has(path)) {
+      return
+    }
+
+    changed.add(path)
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      const paths = [...changed]
+      changed.clear()
+      onChange(paths)
+    }, debounceMs)
+  }
+
+  return {
+    setFiles(paths) {
+      files = new Set(paths.map((path) => resolvePath(path)))
+      const dirs = new Set([...files].map((path) => dirname(path)))
+
+      for (const [dir, watcher] of watchers) {
+        if (!dirs.has(dir)) {
+          watcher.close()
+          watchers.delete(dir)
+        }
+      }
+
+      for (const dir of dirs) {
+        if (!watchers.has(dir)) {
+          watchers.set(
+            dir,
+            watch(dir, (_event, fileName) => onEvent(dir, fileName)),
+          )
+        }
+      }
+    },
+
+    close() {
+      clearTimeout(timer)
+      for (const watcher of watchers.values()) {
+        watcher.close()
+      }
+      watchers.clear()
+    },
+  }
+}
+
+/**
+ * Writes the given files to the output directory, skipping those whose content is identical
+ * to the file already on disk. Existing files with different content are only replaced with
+ * `overwrite`, or if they were written (or found up to date) earlier in the same session, as
+ * tracked in `owned`.
+ *
+ * @param outputDir - Directory to write the files to
+ * @param files - The files to write
+ * @param options - Whether to replace existing files, and the paths written so far
+ * @returns The names of the files that were written, and of those skipped as they exist
+ * @internal
+ */
+export async function writeChangedFiles(
+  outputDir: string,
+  files: FaviconFile[],
+  {overwrite = false, owned = new Set<string>()}: {overwrite?: boolean; owned?: Set<string>} = {},
+): Promise<{written: string[]; skipped: string[]}> {
+  await mkdir(outputDir, {recursive: true})
+
+  const written: string[] = []
+  const skipped: string[] = []
+  for (const file of files) {
+    const path = resolvePath(outputDir, file.name)
+    const existing = await readFile(path).catch(() => undefined)
+    if (existing?.equals(file.buffer)) {
+      // Files that already match are ours to update when they change
+      owned.add(path)
+      continue
+    }
+
+    if (existing && !overwrite && !owned.has(path)) {
+      skipped.push(file.name)
+      continue
+    }
+
+    await writeFile(path, file.buffer)
+    owned.add(path)
+    written.push(file.name)
+  }
+
+  return {written, skipped}
+}
+
+/**
+ * Formats a short, human readable summary of which files changed in a regeneration
+ *
+ * @param changed - Names of the files that changed
+ * @param total - Total number of files generated
+ * @returns The summary
+ * @internal
+ */
+export function summarizeChanges(changed: string[], total: number): string {
+  if (changed.length === 0) {
+    return `No changes (${total} files up to date)`
+  }
+
+  return `Updated ${changed.length} of ${total} files: ${changed.join(', ')}`
+}
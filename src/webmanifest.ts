@@ -1,17 +1,152 @@
+import {isValidCssColor} from './colors.js'
+import type {WebManifestOptions} from './types.js'
+
+const DISPLAY_MODES = ['fullscreen', 'standalone', 'minimal-ui', 'browser']
+const TEXT_DIRECTIONS = ['ltr', 'rtl', 'auto']
+const ORIENTATIONS = [
+  'any',
+  'natural',
+  'landscape',
+  'landscape-primary',
+  'landscape-secondary',
+  'portrait',
+  'portrait-primary',
+  'portrait-secondary',
+]
+
 /**
- * Generates a web manifest file containing the two icons usually needed (192 and 512).
+ * Maps manifest option names to the member names used in the web manifest,
+ * in the order they should appear in the generated manifest.
+ */
+const MANIFEST_MEMBERS: Record<keyof WebManifestOptions, string> = {
+  name: 'name',
+  shortName: 'short_name',
+  description: 'description',
+  id: 'id',
+  startUrl: 'start_url',
+  scope: 'scope',
+  display: 'display',
+  orientation: 'orientation',
+  themeColor: 'theme_color',
+  backgroundColor: 'background_color',
+  lang: 'lang',
+  dir: 'dir',
+}
+
+/**
+ * An icon to list in the web manifest
+ *
+ * @internal
+ */
+export interface WebManifestIcon {
+  /**
+   * File name of the icon, relative to the base path
+   */
+  name: string
+
+  /**
+   * Width and height of the icon, in pixels
+   */
+  size: number
+
+  /**
+   * MIME type of the icon
+   */
+  type: string
+
+  /**
+   * Purpose of the icon - omitted from the manifest if not set (browsers default to `any`)
+   */
+  purpose?: 'any' | 'maskable' | 'monochrome'
+}
+
+/**
+ * The icons listed in the web manifest unless otherwise specified
+ */
+const DEFAULT_ICONS: WebManifestIcon[] = [
+  {name: 'favicon-192.png', size: 192, type: 'image/png'},
+  {name: 'favicon-512.png', size: 512, type: 'image/png'},
+]
+
+/**
+ * Generates a web manifest file containing the given icons (by default the two usually
+ * needed - 192 and 512), along with any additional manifest members given.
  *
  * @param basePath - The base path where the icons are located. Defaults to `/`.
+ * @param options - Additional members to include in the manifest (name, colors etc)
+ * @param icons - The icons to include in the manifest
  * @returns A JSON-serialized web manifest
  * @public
  */
-export function generateWebManifest(basePath: string = '/'): string {
+export function generateWebManifest(
+  basePath: string = '/',
+  options: WebManifestOptions = {},
+  icons: WebManifestIcon[] = DEFAULT_ICONS,
+): string {
   const base = basePath.endsWith('/') ? basePath.replace(/\/+$/, '') : basePath
-  const manifest = {
-    icons: [
-      {src: `${base}/favicon-192.png`, type: 'image/png', sizes: '192x192'},
-      {src: `${base}/favicon-512.png`, type: 'image/png', sizes: '512x512'},
-    ],
+  const manifest: Record<string, unknown> = {}
+  for (const [key, member] of Object.entries(MANIFEST_MEMBERS)) {
+    const value = options[key as keyof WebManifestOptions]
+    if (typeof value !== 'undefined') {
+      manifest[member] = value
+    }
   }
+
+  manifest['icons'] = icons.map(({name, size, type, purpose}) => ({
+    src: `${base}/${name}`,
+    type,
+    sizes: `${size}x${size}`,
+    ...(purpose ? {purpose} : {}),
+  }))
+
   return JSON.stringify(manifest, null, 2)
 }
+
+/**
+ * Validates the given web manifest options, throwing on unknown members or invalid values
+ *
+ * @param options - The options to validate
+ * @returns The validated options
+ * @internal
+ */
+export function validateWebManifestOptions(options: unknown): WebManifestOptions {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new Error('Manifest options must be an object')
+  }
+
+  for (const [key, value] of Object.entries(options)) {
+    if (!Object.hasOwn(MANIFEST_MEMBERS, key)) {
+      throw new Error(`Unknown manifest option "${key}"`)
+    }
+
+    if (typeof value === 'undefined') {
+      continue
+    }
+
+    if (typeof value !== 'string' || value.trim() === '') {
+      throw new Error(`Manifest option "${key}" must be a non-empty string`)
+    }
+
+    if ((key === 'themeColor' || key === 'backgroundColor') && !isValidCssColor(value)) {
+      throw new Error(`Manifest option "${key}" must be a valid CSS color, got "${value}"`)
+    }
+
+    if (key === 'display') {
+      assertOneOf(key, value, DISPLAY_MODES)
+    } else if (key === 'dir') {
+      assertOneOf(key, value, TEXT_DIRECTIONS)
+    } else if (key === 'orientation') {
+      assertOneOf(key, value, ORIENTATIONS)
+    }
+  }
+
+  return options
+}
+
+function assertOneOf(key: string, value: string, allowed: string[]) {
+  if (!allowed.includes(value)) {
+    throw new Error(
+      `Manifest option "${key}" must be one of ${allowed.map((item) => `"${item}"`).join(', ')} - got "${value}"`,
+    )
+  }
+}
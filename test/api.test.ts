@@ -1,12 +1,14 @@
 import {createReadStream, existsSync} from 'node:fs'
-import {stat, readFile, mkdir, rm, copyFile} from 'node:fs/promises'
+import {stat, readFile, readdir, mkdir, rm, copyFile, writeFile} from 'node:fs/promises'
 import {join as joinPath} from 'node:path'
 import {tmpdir} from 'node:os'
+import {inflateRawSync} from 'node:zlib'
 import {createHash} from 'node:crypto'
 import {type Server, createServer} from 'node:http'
 import {afterAll, beforeAll, describe, expect, test, vi} from 'vitest'
 import sharp from 'sharp'
-import {createFavicon} from '../src/index.js'
+import {checkFavicons, createFavicon, FaviconError, type FaviconOptions} from '../src/index.js'
+import {decodeIco} from '../src/ico.js'
 
 let tmpDirNum = 0
 const testOutputDir = joinPath(tmpdir(), 'favicons-api-output')
@@ -22,6 +24,58 @@ async function hashFile(filePath: string): Promise<string> {
     .digest('hex')
 }
 
+/**
+ * Reads the files of a zip archive, from its central directory
+ */
+function readZip(zip: Buffer): Record<string, Buffer> {
+  const end = zip.length - 22
+  const count = zip.readUInt16LE(end + 10)
+  const files: Record<string, Buffer> = {}
+  let entry = zip.readUInt32LE(end + 16)
+  for (let i = 0; i < count; i++) {
+    const method = zip.readUInt16LE(entry + 10)
+    const compressedSize = zip.readUInt32LE(entry + 20)
+    const nameLength = zip.readUInt16LE(entry + 28)
+    const name = zip.toString('utf8', entry + 46, entry + 46 + nameLength)
+    const local = zip.readUInt32LE(entry + 42)
+    const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28)
+    const data = zip.subarray(start, start + compressedSize)
+    files[name] = method === 8 ? inflateRawSync(data) : data
+    entry += 46 + nameLength
+  }
+  return files
+}
+
+/**
+ * Reads the files of a tar archive
+ */
+function readTar(tar: Buffer): Record<string, Buffer> {
+  const files: Record<string, Buffer> = {}
+  let offset = 0
+  while (tar[offset] !== 0) {
+    const name = tar.toString('utf8', offset, offset + 100).split('\0')[0]!
+    const size = parseInt(tar.toString('utf8', offset + 124, offset + 135), 8)
+    files[name] = tar.subarray(offset + 512, offset + 512 + size)
+    offset += 512 + Math.ceil(size / 512) * 512
+  }
+  return files
+}
+
+function readIcoDirectory(ico: Buffer) {
+  const count = ico.readUInt16LE(4)
+  return Array.from({length: count}, (_, i) => {
+    const entry = 6 + i * 16
+    const offset = ico.readUInt32LE(entry + 12)
+    return {
+      width: ico.readUInt8(entry) || 256,
+      height: ico.readUInt8(entry + 1) || 256,
+      size: ico.readUInt32LE(entry + 8),
+      offset,
+      isPng: ico.subarray(offset, offset + 4).toString('latin1') === '\x89PNG',
+    }
+  })
+}
+
 describe('api', () => {
   let server: Server
 
@@ -160,7 +214,9 @@ describe('api', () => {
       outputDir,
     })
 
-    expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).toBe(await hashFile(sourceFile))
+    expect(await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')).toMatchInlineSnapshot(
+      `"<svg width="200" height="250" version="1.1" xmlns="http://www.w3.org/2000/svg"><rect x="0" y="0" width="200" height="250" fill="white"/><rect x="0" y="0" width="100" height="100" fill="red"/></svg>"`,
+    )
 
     expect(await sharp(joinPath(outputDir, 'apple-touch-icon.png')).metadata()).toMatchObject({
       width: 180,
@@ -190,12 +246,16 @@ describe('api', () => {
   test('should generate all variations from valid SVG', async () => {
     const outputDir = getTmpDir('valid')
     const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    const warn = vi.fn()
     const result = await createFavicon({
       sourceFile,
       outputDir,
+      warn,
     })
 
-    expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).toBe(await hashFile(sourceFile))
+    expect((await stat(joinPath(outputDir, 'favicon.svg'))).size).toBeLessThan(
+      (await stat(sourceFile)).size,
+    )
 
     expect(result.html).toMatchInlineSnapshot(`
       "<link rel="icon" href="/favicon.ico" sizes="any">
@@ -210,6 +270,7 @@ describe('api', () => {
       format: 'png',
       hasAlpha: true,
     })
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('iOS shows as black'))
 
     expect(await sharp(joinPath(outputDir, 'favicon-512.png')).metadata()).toMatchObject({
       width: 512,
@@ -229,21 +290,33 @@ describe('api', () => {
 
     expect(JSON.parse(await readFile(joinPath(outputDir, 'manifest.webmanifest'), 'utf8')))
       .toMatchInlineSnapshot(`
-      {
-        "icons": [
-          {
-            "sizes": "192x192",
-            "src": "/favicon-192.png",
-            "type": "image/png",
-          },
-          {
-            "sizes": "512x512",
-            "src": "/favicon-512.png",
-            "type": "image/png",
-          },
-        ],
-      }
-    `)
+        {
+          "icons": [
+            {
+              "sizes": "192x192",
+              "src": "/favicon-192.png",
+              "type": "image/png",
+            },
+            {
+              "sizes": "512x512",
+              "src": "/favicon-512.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "192x192",
+              "src": "/maskable-192.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "512x512",
+              "src": "/maskable-512.png",
+              "type": "image/png",
+            },
+          ],
+        }
+      `)
   })
 
   test('should skip writing webmanifest if `manifest` is set to `false`', async () => {
@@ -253,9 +326,12 @@ describe('api', () => {
       sourceFile,
       outputDir,
       manifest: false,
+      warn: false,
     })
 
-    expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).toBe(await hashFile(sourceFile))
+    expect((await stat(joinPath(outputDir, 'favicon.svg'))).size).toBeLessThan(
+      (await stat(sourceFile)).size,
+    )
     expect(existsSync(joinPath(outputDir, 'manifest.webmanifest'))).toBe(false)
 
     expect(result.html).toMatchInlineSnapshot(`
@@ -339,12 +415,16 @@ describe('api', () => {
   test('should generate all variations from valid SVG (over HTTP)', async () => {
     const outputDir = getTmpDir('valid')
     const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    const warn = vi.fn()
     const result = await createFavicon({
       sourceFile: 'http://localhost:27344/mead.svg',
       outputDir,
+      warn,
     })
 
-    expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).toBe(await hashFile(sourceFile))
+    expect((await stat(joinPath(outputDir, 'favicon.svg'))).size).toBeLessThan(
+      (await stat(sourceFile)).size,
+    )
 
     expect(result.html).toMatchInlineSnapshot(`
       "<link rel="icon" href="/favicon.ico" sizes="any">
@@ -359,6 +439,7 @@ describe('api', () => {
       format: 'png',
       hasAlpha: true,
     })
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('iOS shows as black'))
 
     expect(await sharp(joinPath(outputDir, 'favicon-512.png')).metadata()).toMatchObject({
       width: 512,
@@ -378,21 +459,33 @@ describe('api', () => {
 
     expect(JSON.parse(await readFile(joinPath(outputDir, 'manifest.webmanifest'), 'utf8')))
       .toMatchInlineSnapshot(`
-      {
-        "icons": [
-          {
-            "sizes": "192x192",
-            "src": "/favicon-192.png",
-            "type": "image/png",
-          },
-          {
-            "sizes": "512x512",
-            "src": "/favicon-512.png",
-            "type": "image/png",
-          },
-        ],
-      }
-    `)
+        {
+          "icons": [
+            {
+              "sizes": "192x192",
+              "src": "/favicon-192.png",
+              "type": "image/png",
+            },
+            {
+              "sizes": "512x512",
+              "src": "/favicon-512.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "192x192",
+              "src": "/maskable-192.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "512x512",
+              "src": "/maskable-512.png",
+              "type": "image/png",
+            },
+          ],
+        }
+      `)
   })
 
   test('should generate all variations except SVG from PNG input, prints warning', async () => {
@@ -441,21 +534,33 @@ describe('api', () => {
 
     expect(JSON.parse(await readFile(joinPath(outputDir, 'manifest.webmanifest'), 'utf8')))
       .toMatchInlineSnapshot(`
-      {
-        "icons": [
-          {
-            "sizes": "192x192",
-            "src": "/favicon-192.png",
-            "type": "image/png",
-          },
-          {
-            "sizes": "512x512",
-            "src": "/favicon-512.png",
-            "type": "image/png",
-          },
-        ],
-      }
-    `)
+        {
+          "icons": [
+            {
+              "sizes": "192x192",
+              "src": "/favicon-192.png",
+              "type": "image/png",
+            },
+            {
+              "sizes": "512x512",
+              "src": "/favicon-512.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "192x192",
+              "src": "/maskable-192.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "512x512",
+              "src": "/maskable-512.png",
+              "type": "image/png",
+            },
+          ],
+        }
+      `)
   })
 
   test('should be able to specify custom base path', async () => {
@@ -464,6 +569,7 @@ describe('api', () => {
       sourceFile: joinPath(fixturesPath, 'mead.svg'),
       outputDir,
       basePath: '/foo/bar/',
+      warn: false,
     })
 
     expect(result.html).toMatchInlineSnapshot(`
@@ -475,20 +581,1927 @@ describe('api', () => {
 
     expect(JSON.parse(await readFile(joinPath(outputDir, 'manifest.webmanifest'), 'utf8')))
       .toMatchInlineSnapshot(`
-      {
-        "icons": [
+        {
+          "icons": [
+            {
+              "sizes": "192x192",
+              "src": "/foo/bar/favicon-192.png",
+              "type": "image/png",
+            },
+            {
+              "sizes": "512x512",
+              "src": "/foo/bar/favicon-512.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "192x192",
+              "src": "/foo/bar/maskable-192.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "512x512",
+              "src": "/foo/bar/maskable-512.png",
+              "type": "image/png",
+            },
+          ],
+        }
+      `)
+  })
+
+  test('should write a multi-resolution ICO with 16, 32 and 48 pixel frames by default', async () => {
+    const outputDir = getTmpDir('ico-default')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      warn: false,
+    })
+
+    const ico = await readFile(joinPath(outputDir, 'favicon.ico'))
+    const frames = readIcoDirectory(ico)
+    expect(frames.map(({width, height, isPng}) => ({width, height, isPng}))).toEqual([
+      {width: 16, height: 16, isPng: false},
+      {width: 32, height: 32, isPng: false},
+      {width: 48, height: 48, isPng: false},
+    ])
+
+    // Each frame has its own offset, and the frames are laid out back-to-back
+    let expectedOffset = 6 + frames.length * 16
+    for (const frame of frames) {
+      expect(frame.offset).toBe(expectedOffset)
+      expectedOffset += frame.size
+    }
+    expect(ico.length).toBe(expectedOffset)
+  })
+
+  test('should be able to specify custom ICO sizes, storing large frames as PNG', async () => {
+    const outputDir = getTmpDir('ico-custom')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      icoSizes: [256, 32, 32, 16],
+      warn: false,
+    })
+
+    const ico = await readFile(joinPath(outputDir, 'favicon.ico'))
+    const frames = readIcoDirectory(ico)
+    expect(frames.map(({width, isPng}) => ({width, isPng}))).toEqual([
+      {width: 16, isPng: false},
+      {width: 32, isPng: false},
+      {width: 256, isPng: true},
+    ])
+
+    const pngFrame = frames[2]!
+    const png = ico.subarray(pngFrame.offset, pngFrame.offset + pngFrame.size)
+    expect(await sharp(png).metadata()).toMatchObject({width: 256, height: 256, format: 'png'})
+  })
+
+  test('should throw on invalid ICO sizes', async () => {
+    await expect(() =>
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        outputDir: getTmpDir(),
+        icoSizes: [16, 512],
+      }),
+    ).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid ICO size "512" - must be an integer between 1 and 256]`,
+    )
+
+    await expect(() =>
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        outputDir: getTmpDir(),
+        icoSizes: [],
+      }),
+    ).rejects.toMatchInlineSnapshot(`[Error: ICO sizes must be a non-empty array of numbers]`)
+  })
+
+  test('should return generated files in memory without writing with `write: false`', async () => {
+    const outputDir = getTmpDir('in-memory')
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    const result = await createFavicon({
+      sourceFile,
+      outputDir,
+      write: false,
+      warn: false,
+    })
+
+    expect(existsSync(outputDir)).toBe(false)
+    expect(result.html).toContain('<link rel="icon" href="/favicon.svg" type="image/svg+xml">')
+
+    expect(result.files.map(({name, mimeType, width, height}) => ({name, mimeType, width, height})))
+      .toMatchInlineSnapshot(`
+        [
           {
-            "sizes": "192x192",
-            "src": "/foo/bar/favicon-192.png",
-            "type": "image/png",
+            "height": 512,
+            "mimeType": "image/png",
+            "name": "favicon-512.png",
+            "width": 512,
           },
           {
-            "sizes": "512x512",
-            "src": "/foo/bar/favicon-512.png",
-            "type": "image/png",
+            "height": 192,
+            "mimeType": "image/png",
+            "name": "favicon-192.png",
+            "width": 192,
           },
-        ],
-      }
-    `)
+          {
+            "height": 180,
+            "mimeType": "image/png",
+            "name": "apple-touch-icon.png",
+            "width": 180,
+          },
+          {
+            "height": 48,
+            "mimeType": "image/x-icon",
+            "name": "favicon.ico",
+            "width": 48,
+          },
+          {
+            "height": 192,
+            "mimeType": "image/png",
+            "name": "maskable-192.png",
+            "width": 192,
+          },
+          {
+            "height": 512,
+            "mimeType": "image/png",
+            "name": "maskable-512.png",
+            "width": 512,
+          },
+          {
+            "height": undefined,
+            "mimeType": "application/manifest+json",
+            "name": "manifest.webmanifest",
+            "width": undefined,
+          },
+          {
+            "height": 100,
+            "mimeType": "image/svg+xml",
+            "name": "favicon.svg",
+            "width": 100,
+          },
+        ]
+      `)
+
+    const png = result.files.find((file) => file.name === 'favicon-192.png')!
+    expect(await sharp(png.buffer).metadata()).toMatchObject({
+      width: 192,
+      height: 192,
+      format: 'png',
+      hasAlpha: true,
+    })
+
+    const svg = result.files.find((file) => file.name === 'favicon.svg')!
+    expect(svg.buffer.length).toBe(result.svgOptimization?.optimizedSize)
+  })
+
+  test('should not check for existing files with `write: false`', async () => {
+    const warn = vi.fn()
+    const outputDir = getTmpDir('in-memory-existing')
+    await mkdir(outputDir, {recursive: true})
+    await copyFile(joinPath(fixturesPath, 'mead.png'), joinPath(outputDir, 'favicon-512.png'))
+
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      write: false,
+      warn,
+    })
+
+    expect(warn).not.toHaveBeenCalledWith(expect.stringContaining('already exists'))
+    expect(result.files).toHaveLength(8)
+  })
+
+  test('should include additional web manifest members', async () => {
+    const outputDir = getTmpDir('manifest-members')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      manifest: {
+        name: 'Mead Hall',
+        shortName: 'Mead',
+        description: 'All the mead you can drink',
+        id: '/?source=pwa',
+        startUrl: '/',
+        scope: '/',
+        display: 'standalone',
+        themeColor: '#f0a',
+        backgroundColor: 'rgb(255 255 255 / 50%)',
+        lang: 'en-US',
+        dir: 'ltr',
+      },
+      warn: false,
+    })
+
+    expect(JSON.parse(await readFile(joinPath(outputDir, 'manifest.webmanifest'), 'utf8')))
+      .toMatchInlineSnapshot(`
+        {
+          "background_color": "rgb(255 255 255 / 50%)",
+          "description": "All the mead you can drink",
+          "dir": "ltr",
+          "display": "standalone",
+          "icons": [
+            {
+              "sizes": "192x192",
+              "src": "/favicon-192.png",
+              "type": "image/png",
+            },
+            {
+              "sizes": "512x512",
+              "src": "/favicon-512.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "192x192",
+              "src": "/maskable-192.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "512x512",
+              "src": "/maskable-512.png",
+              "type": "image/png",
+            },
+          ],
+          "id": "/?source=pwa",
+          "lang": "en-US",
+          "name": "Mead Hall",
+          "scope": "/",
+          "short_name": "Mead",
+          "start_url": "/",
+          "theme_color": "#f0a",
+        }
+      `)
+  })
+
+  test('should validate web manifest members before writing anything', async () => {
+    const outputDir = getTmpDir('manifest-invalid')
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+
+    await expect(() =>
+      // @ts-expect-error -- We're testing the error case
+      createFavicon({sourceFile, outputDir, manifest: {display: 'windowed'}}),
+    ).rejects.toMatchInlineSnapshot(
+      `[Error: Manifest option "display" must be one of "fullscreen", "standalone", "minimal-ui", "browser" - got "windowed"]`,
+    )
+
+    await expect(() =>
+      createFavicon({sourceFile, outputDir, manifest: {themeColor: 'not-a-color'}}),
+    ).rejects.toMatchInlineSnapshot(
+      `[Error: Manifest option "themeColor" must be a valid CSS color, got "not-a-color"]`,
+    )
+
+    await expect(() =>
+      createFavicon({sourceFile, outputDir, manifest: {backgroundColor: 'rgb(1, 2)'}}),
+    ).rejects.toMatchInlineSnapshot(
+      `[Error: Manifest option "backgroundColor" must be a valid CSS color, got "rgb(1, 2)"]`,
+    )
+
+    await expect(() =>
+      // @ts-expect-error -- We're testing the error case
+      createFavicon({sourceFile, outputDir, manifest: {short_name: 'Mead'}}),
+    ).rejects.toMatchInlineSnapshot(`[Error: Unknown manifest option "short_name"]`)
+
+    // Inherited object keys are not manifest options either
+    await expect(() =>
+      // @ts-expect-error -- We're testing the error case
+      createFavicon({sourceFile, outputDir, manifest: {constructor: 'Mead'}}),
+    ).rejects.toMatchInlineSnapshot(`[Error: Unknown manifest option "constructor"]`)
+
+    expect(existsSync(outputDir)).toBe(false)
+  })
+
+  test('should generate maskable icons with the artwork in the safe zone', async () => {
+    const outputDir = getTmpDir('maskable')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      maskableBackground: '#ff0000',
+      warn: false,
+    })
+
+    for (const size of [192, 512]) {
+      const file = joinPath(outputDir, `maskable-${size}.png`)
+      expect(await sharp(file).metadata()).toMatchObject({
+        width: size,
+        height: size,
+        format: 'png',
+        hasAlpha: false,
+      })
+
+      // Outside of the safe zone, only the background color should be visible
+      const {data} = await sharp(file).raw().toBuffer({resolveWithObject: true})
+      expect([...data.subarray(0, 3)]).toEqual([255, 0, 0])
+    }
+  })
+
+  test('should throw on invalid maskable background color', async () => {
+    await expect(() =>
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        outputDir: getTmpDir(),
+        maskableBackground: 'oklch(70% 0.1 200)',
+      }),
+    ).rejects.toMatchInlineSnapshot(
+      `[Error: Maskable background must be a named, hex, rgb(), hsl() or hwb() CSS color, got "oklch(70% 0.1 200)"]`,
+    )
+  })
+
+  test('should flatten and pad the apple touch icon with `appleTouchIcon`', async () => {
+    const warn = vi.fn()
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      appleTouchIcon: {background: '#00ff00', padding: 10},
+      write: false,
+      warn,
+    })
+
+    const icon = result.files.find((file) => file.name === 'apple-touch-icon.png')!
+    expect(await sharp(icon.buffer).metadata()).toMatchObject({
+      width: 180,
+      height: 180,
+      hasAlpha: false,
+    })
+
+    // Padding (18px on each side) only shows the background color
+    const {data, info} = await sharp(icon.buffer).raw().toBuffer({resolveWithObject: true})
+    const pixelAt = (x: number, y: number) => {
+      const offset = (y * info.width + x) * info.channels
+      return [...data.subarray(offset, offset + 3)]
+    }
+    expect(pixelAt(10, 90)).toEqual([0, 255, 0])
+    expect(pixelAt(90, 10)).toEqual([0, 255, 0])
+    expect(pixelAt(90, 90)).not.toEqual([0, 255, 0])
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  test('should warn if the apple touch icon has transparent areas and no background', async () => {
+    const warn = vi.fn()
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      appleTouchIcon: {padding: 10},
+      write: false,
+      warn,
+    })
+
+    expect(warn).toHaveBeenCalledWith(
+      'Source image has transparent areas, which iOS shows as black on the home screen - set a background color for the apple touch icon to flatten it',
+    )
+
+    const icon = result.files.find((file) => file.name === 'apple-touch-icon.png')!
+    const {data, info} = await sharp(icon.buffer).raw().toBuffer({resolveWithObject: true})
+    expect(info.channels).toBe(4)
+    expect(data[(90 * info.width + 10) * 4 + 3]).toBe(0)
+  })
+
+  test('should throw on invalid apple touch icon options', async () => {
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    await expect(() =>
+      createFavicon({sourceFile, appleTouchIcon: {padding: 50}, write: false}),
+    ).rejects.toThrow(
+      'Apple touch icon padding must be a percentage of at least 0 and less than 50, got "50"',
+    )
+    await expect(() =>
+      createFavicon({sourceFile, appleTouchIcon: {background: 'oklch(70% 0.1 200)'}, write: false}),
+    ).rejects.toThrow('Apple touch icon background must be a named, hex, rgb(), hsl() or hwb()')
+    await expect(() =>
+      // @ts-expect-error -- We're testing the error case
+      createFavicon({sourceFile, appleTouchIcon: {color: '#fff'}, write: false}),
+    ).rejects.toThrow('Unknown apple touch icon option "color"')
+  })
+
+  test('should add dark mode styles to SVG output from a color mapping', async () => {
+    const warn = vi.fn()
+    const outputDir = getTmpDir('dark-colors')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      darkMode: {'#FF9300': '#000'},
+      warn,
+    })
+
+    const svg = await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')
+    expect(svg).toContain(
+      '<style>@media (prefers-color-scheme: dark){.favicon-dark-0{fill:#000!important}}</style>',
+    )
+    expect(svg).toContain('<circle cx="50" cy="50" r="50" fill="#ff9300" class="favicon-dark-0"/>')
+    expect(await sharp(Buffer.from(svg)).metadata()).toMatchObject({format: 'svg', width: 100})
+    expect(warn).not.toHaveBeenCalledWith(
+      expect.stringContaining('None of the dark mode colors were found'),
+    )
+  })
+
+  test('should remap colors in existing style elements for dark mode', async () => {
+    const warn = vi.fn()
+    const outputDir = getTmpDir('dark-colors-style')
+    const sourceFile = Buffer.from(
+      [
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">',
+        '<style>.red{fill:#000;stroke:url(#red)}</style>',
+        '<linearGradient id="red"><stop offset="0" stop-color="red"/></linearGradient>',
+        '<circle class="red" cx="50" cy="50" r="50"/>',
+        '</svg>',
+      ].join(''),
+    )
+    await createFavicon({
+      sourceFile,
+      outputDir,
+      darkMode: {'#000': '#fff', red: 'blue'},
+      optimizeSvg: false,
+      warn,
+    })
+
+    // The dark mode rules come after the existing ones, so that they take precedence
+    const svg = await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')
+    expect(svg).toMatch(
+      /<style>\.red\{fill:#000;stroke:url\(#red\)\}<\/style>.*<style>@media \(prefers-color-scheme: dark\)\{\.red\{fill:#fff;stroke:url\(#red\)\}\.favicon-dark-0\{stop-color:blue!important\}\}<\/style><\/svg>/s,
+    )
+    expect(warn).not.toHaveBeenCalledWith(
+      expect.stringContaining('None of the dark mode colors were found'),
+    )
+  })
+
+  test('should warn if none of the dark mode colors are found in the SVG', async () => {
+    const warn = vi.fn()
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir: getTmpDir('dark-colors-unmatched'),
+      darkMode: {'#123456': '#000'},
+      warn,
+    })
+
+    expect(warn).toHaveBeenCalledWith('None of the dark mode colors were found in the source SVG')
+  })
+
+  test('should combine SVG output with a dark mode variant', async () => {
+    const outputDir = getTmpDir('dark-source')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      darkMode: joinPath(fixturesPath, 'darkVariant.svg'),
+      warn: false,
+    })
+
+    const svg = await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')
+    expect(svg).toContain(
+      '<style>.favicon-dark{display:none}@media (prefers-color-scheme: dark){.favicon-light{display:none}.favicon-dark{display:inline}}</style>',
+    )
+    expect(svg).toContain(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100" width="100%" height="100%" class="favicon-light">',
+    )
+    expect(svg).toContain(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 200" width="100%" height="100%" class="favicon-dark">',
+    )
+
+    // IDs within the dark variant are prefixed to prevent collisions
+    expect(svg).toContain('<linearGradient id="dark-glow">')
+    expect(svg).toContain('fill="url(#dark-glow)"')
+    expect(await sharp(Buffer.from(svg)).metadata()).toMatchObject({format: 'svg', width: 100})
+  })
+
+  test('should prefix class names of the dark mode variant', async () => {
+    const getSvg = (color: string) =>
+      Buffer.from(
+        '<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">' +
+          `<style>.st0{fill:${color}}</style><rect class="st0" width="512" height="512"/></svg>`,
+      )
+
+    const result = await createFavicon({
+      sourceFile: getSvg('#000'),
+      darkMode: getSvg('#fff'),
+      optimizeSvg: false,
+      write: false,
+      warn: false,
+    })
+
+    // The rules of the dark variant must not restyle the light variant, and vice versa
+    const svg = result.files.find((file) => file.name === 'favicon.svg')!.buffer.toString()
+    expect(svg).toContain('<style>.st0{fill:#000}</style><rect class="st0"')
+    expect(svg).toContain('<style>.dark-st0{fill:#fff}</style><rect class="dark-st0"')
+  })
+
+  test('should throw on malformed dark mode SVG, without writing files', async () => {
+    const outputDir = getTmpDir('dark-malformed')
+    await expect(() =>
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        outputDir,
+        darkMode: Buffer.from('<svg xmlns="http://www.w3.org/2000/svg">\n  <g>\n</svg>'),
+        warn: false,
+      }),
+    ).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid dark mode SVG: closing tag </svg> does not match opening tag <g> (line 3, column 1)]`,
+    )
+
+    await expect(() =>
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        outputDir,
+        darkMode: joinPath(fixturesPath, 'nonImage.svg'),
+        warn: false,
+      }),
+    ).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid dark mode SVG: root element must be <svg>, got <html> (line 1, column 1)]`,
+    )
+
+    expect(existsSync(outputDir)).toBe(false)
+  })
+
+  test('should throw on invalid dark mode colors', async () => {
+    await expect(() =>
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        outputDir: getTmpDir(),
+        darkMode: {'#000': 'dark'},
+      }),
+    ).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid dark mode color "dark" - must be a valid CSS color]`,
+    )
+  })
+
+  test('should optimize SVG output by default', async () => {
+    const outputDir = getTmpDir('optimize-svg')
+    const sourceFile = joinPath(fixturesPath, 'editorExport.svg')
+    const result = await createFavicon({
+      sourceFile,
+      outputDir,
+      warn: false,
+    })
+
+    const svg = await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')
+    expect(svg).toMatchInlineSnapshot(
+      `"<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512"><defs><linearGradient id="fill" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="#663399"/><stop offset="1" stop-color="#ff9300"/></linearGradient></defs><g><rect x="0" y="0" width="512" height="512" rx="95.33" fill="url(#fill)"/><path d="M 128,256 L 256,128 384,256 Z" fill="#ffffff"/></g></svg>"`,
+    )
+    expect(result.svgOptimization).toEqual({
+      originalSize: (await stat(sourceFile)).size,
+      optimizedSize: Buffer.byteLength(svg),
+    })
+    expect(await sharp(Buffer.from(svg)).metadata()).toMatchObject({format: 'svg', width: 512})
+  })
+
+  test('should expand doctype entities when optimizing SVG output', async () => {
+    const warn = vi.fn()
+    const outputDir = getTmpDir('optimize-svg-entities')
+    const sourceFile = joinPath(fixturesPath, 'illustratorExport.svg')
+    await createFavicon({sourceFile, outputDir, warn})
+
+    const svg = await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')
+    expect(svg).toMatchInlineSnapshot(`
+      "<svg version="1.1" id="Layer_1" xmlns="http://www.w3.org/2000/svg" x="0px" y="0px" width="100px" height="100px" viewBox="0 0 100 100" xml:space="preserve">
+
+      <circle style="fill:#FF9300;" cx="50" cy="50" r="50"/>
+      </svg>"
+    `)
+    expect(await sharp(Buffer.from(svg)).metadata()).toMatchObject({format: 'svg', width: 100})
+    expect(warn).not.toHaveBeenCalledWith(expect.stringContaining('Could not optimize SVG'))
+  })
+
+  test('should keep arc flags intact when optimizing path data', async () => {
+    const outputDir = getTmpDir('optimize-svg-arcs')
+    const sourceFile = Buffer.from(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">' +
+        '<path d="M10 10a50 50 0 01.123456 200A50.123456 50 0 1 0 1.0001.5z"/></svg>',
+    )
+    await createFavicon({sourceFile, outputDir, warn: false})
+
+    // Arc flags may run together with the next number, and must not be merged into it
+    const svg = await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')
+    expect(svg).toContain('<path d="M10 10a50 50 0 010.12 200A50.12 50 0 1 0 1 .5z"/>')
+  })
+
+  test('should not optimize SVG output if `optimizeSvg` is `false`', async () => {
+    const outputDir = getTmpDir('no-optimize-svg')
+    const sourceFile = joinPath(fixturesPath, 'editorExport.svg')
+    const result = await createFavicon({
+      sourceFile,
+      outputDir,
+      optimizeSvg: false,
+      warn: false,
+    })
+
+    expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).toBe(await hashFile(sourceFile))
+    expect(result.svgOptimization).toBeUndefined()
+  })
+
+  test('should map logical file names to themselves by default', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      write: false,
+      warn: false,
+    })
+
+    expect(Object.entries(result.fileNames).every(([from, to]) => from === to)).toBe(true)
+    expect(Object.keys(result.fileNames)).toEqual(result.files.map((file) => file.name))
+  })
+
+  test('should include content hashes in file names with `hash: true`', async () => {
+    const outputDir = getTmpDir('hash')
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      hash: true,
+      warn: false,
+    })
+
+    const {fileNames} = result
+    expect(Object.keys(fileNames)).toEqual([
+      'favicon-512.png',
+      'favicon-192.png',
+      'apple-touch-icon.png',
+      'favicon.ico',
+      'maskable-192.png',
+      'maskable-512.png',
+      'manifest.webmanifest',
+      'favicon.svg',
+    ])
+
+    for (const [logical, emitted] of Object.entries(fileNames)) {
+      const [, name, ext] = /^(.*)(\.[a-z]+)$/.exec(logical)!
+      expect(emitted).toMatch(new RegExp(`^${name}\\.[0-9a-f]{7}\\${ext}$`))
+    }
+
+    // Hash is derived from the content of the file
+    const png = result.files.find((file) => file.name === fileNames['favicon-512.png'])!
+    const digest = createHash('sha256').update(png.buffer).digest('hex').slice(0, 7)
+    expect(png.name).toBe(`favicon-512.${digest}.png`)
+
+    expect((await readdir(outputDir)).sort()).toEqual(Object.values(fileNames).sort())
+
+    expect(result.html).toBe(
+      [
+        `<link rel="icon" href="/${fileNames['favicon.ico']}" sizes="any">`,
+        `<link rel="icon" href="/${fileNames['favicon.svg']}" type="image/svg+xml">`,
+        `<link rel="apple-touch-icon" href="/${fileNames['apple-touch-icon.png']}">`,
+        `<link rel="manifest" href="/${fileNames['manifest.webmanifest']}">`,
+      ].join('\n'),
+    )
+
+    const manifest = JSON.parse(
+      await readFile(joinPath(outputDir, fileNames['manifest.webmanifest']!), 'utf8'),
+    )
+    expect(manifest.icons.map((icon: {src: string}) => icon.src)).toEqual([
+      `/${fileNames['favicon-192.png']}`,
+      `/${fileNames['favicon-512.png']}`,
+      `/${fileNames['maskable-192.png']}`,
+      `/${fileNames['maskable-512.png']}`,
+    ])
+  })
+
+  test('should inject tags into HTML file, replacing existing favicon tags', async () => {
+    const outputDir = getTmpDir('inject')
+    const htmlFile = joinPath(outputDir, 'index.html')
+    await mkdir(outputDir, {recursive: true})
+    await copyFile(joinPath(fixturesPath, 'index.html'), htmlFile)
+
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      basePath: '/icons',
+      inject: htmlFile,
+      warn: false,
+    })
+
+    const injected = await readFile(htmlFile, 'utf8')
+    expect(injected).toMatchInlineSnapshot(`
+      "<!DOCTYPE html>
+      <html lang="en">
+          <head>
+              <meta charset="utf-8">
+              <title>My app</title>
+              <link rel="icon" href="/icons/favicon.ico" sizes="any">
+              <link rel="icon" href="/icons/favicon.svg" type="image/svg+xml">
+              <link rel="apple-touch-icon" href="/icons/apple-touch-icon.png">
+              <link rel="manifest" href="/icons/manifest.webmanifest">
+              <link rel="stylesheet" href="/style.css">
+              <!-- <link rel="icon" href="/commented-out.png"> -->
+          </head>
+          <body>
+              <link rel="icon" href="/not-in-head.png">
+          </body>
+      </html>
+      "
+    `)
+
+    // Injecting again should leave the file unchanged
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      basePath: '/icons',
+      inject: htmlFile,
+      overwrite: true,
+      warn: false,
+    })
+    expect(await readFile(htmlFile, 'utf8')).toBe(injected)
+  })
+
+  test('should inject tags at the end of <head> if it has no favicon tags', async () => {
+    const outputDir = getTmpDir('inject-append')
+    const htmlFile = joinPath(outputDir, 'index.html')
+    await mkdir(outputDir, {recursive: true})
+    await writeFile(htmlFile, '<html>\n\t<head>\n\t\t<title>App</title>\n\t</head>\n</html>\n')
+
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      manifest: false,
+      inject: htmlFile,
+      warn: false,
+    })
+
+    expect(await readFile(htmlFile, 'utf8')).toMatchInlineSnapshot(`
+      "<html>
+      	<head>
+      		<title>App</title>
+      		<link rel="icon" href="/favicon.ico" sizes="any">
+      		<link rel="icon" href="/favicon.svg" type="image/svg+xml">
+      		<link rel="apple-touch-icon" href="/apple-touch-icon.png">
+      	</head>
+      </html>
+      "
+    `)
+  })
+
+  test('should throw if HTML file to inject into has no <head>, without writing files', async () => {
+    const outputDir = getTmpDir('inject-no-head')
+    const htmlFile = joinPath(getTmpDir(), 'index.html')
+    await mkdir(joinPath(htmlFile, '..'), {recursive: true})
+    await writeFile(htmlFile, '<!-- <head></head> -->\n<body><p>Hello</p></body>\n')
+
+    await expect(() =>
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        outputDir,
+        inject: htmlFile,
+        warn: false,
+      }),
+    ).rejects.toThrow(`Could not find a <head> element in "${htmlFile}"`)
+
+    expect(existsSync(outputDir)).toBe(false)
+  })
+
+  test('should return the html snippet and link descriptors by default', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      write: false,
+      warn: false,
+    })
+
+    expect(result.snippet).toBe(result.html)
+    expect(result.links).toMatchInlineSnapshot(`
+      [
+        {
+          "href": "/favicon.ico",
+          "rel": "icon",
+          "sizes": "any",
+        },
+        {
+          "href": "/favicon.svg",
+          "rel": "icon",
+          "type": "image/svg+xml",
+        },
+        {
+          "href": "/apple-touch-icon.png",
+          "rel": "apple-touch-icon",
+        },
+        {
+          "href": "/manifest.webmanifest",
+          "rel": "manifest",
+        },
+      ]
+    `)
+  })
+
+  test('should format snippet as JSX with `format: "jsx"`', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      basePath: '/assets',
+      format: 'jsx',
+      write: false,
+      warn: false,
+    })
+
+    expect(result.html).toContain('<link rel="icon" href="/assets/favicon.ico" sizes="any">')
+    expect(result.snippet).toMatchInlineSnapshot(`
+      "<>
+        <link rel="icon" href="/assets/favicon.ico" sizes="any" />
+        <link rel="icon" href="/assets/favicon.svg" type="image/svg+xml" />
+        <link rel="apple-touch-icon" href="/assets/apple-touch-icon.png" />
+        <link rel="manifest" href="/assets/manifest.webmanifest" />
+      </>"
+    `)
+  })
+
+  test('should format snippet as JSON with `format: "json"`', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      format: 'json',
+      write: false,
+      warn: false,
+    })
+
+    expect(JSON.parse(result.snippet)).toEqual(result.links)
+  })
+
+  test('should format snippet as Next.js metadata with `format: "next-metadata"`', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      format: 'next-metadata',
+      hash: true,
+      write: false,
+      warn: false,
+    })
+
+    const {fileNames} = result
+    expect(JSON.parse(result.snippet)).toEqual({
+      icons: {
+        icon: [
+          {url: `/${fileNames['favicon.ico']}`, sizes: 'any'},
+          {url: `/${fileNames['favicon.svg']}`, type: 'image/svg+xml'},
+        ],
+        apple: [{url: `/${fileNames['apple-touch-icon.png']}`}],
+      },
+      manifest: `/${fileNames['manifest.webmanifest']}`,
+    })
+  })
+
+  test('should throw on invalid snippet format', async () => {
+    await expect(() =>
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        // @ts-expect-error -- We're testing the error case
+        format: 'pug',
+        write: false,
+      }),
+    ).rejects.toThrow(
+      'Invalid format "pug" - must be one of "html", "jsx", "json", "next-metadata"',
+    )
+  })
+
+  test('should find no issues when checking a freshly generated set', async () => {
+    const outputDir = getTmpDir('check')
+    const htmlFile = joinPath(outputDir, 'index.html')
+    await mkdir(outputDir, {recursive: true})
+    await copyFile(joinPath(fixturesPath, 'index.html'), htmlFile)
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      hash: true,
+      inject: htmlFile,
+      warn: false,
+    })
+
+    const result = await checkFavicons({outputDir, html: htmlFile})
+    expect(result.issues).toEqual([])
+    expect(result.ok).toBe(true)
+    expect(result.files).toHaveLength(8)
+  })
+
+  test('should report missing files, wrong dimensions and broken references', async () => {
+    const outputDir = getTmpDir('check-issues')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      warn: false,
+    })
+
+    await rm(joinPath(outputDir, 'maskable-512.png'))
+    await copyFile(joinPath(outputDir, 'favicon-512.png'), joinPath(outputDir, 'favicon-192.png'))
+    await writeFile(
+      joinPath(outputDir, 'index.html'),
+      '<head><link rel="icon" href="/favicon.ico" sizes="any"><link rel="icon" href="/old.png"></head>',
+    )
+
+    const result = await checkFavicons({
+      outputDir,
+      icoSizes: [16, 32],
+      html: joinPath(outputDir, 'index.html'),
+    })
+    expect(result.ok).toBe(false)
+    expect(result.issues.map(({file, message}) => `${file.replace(outputDir, '')}: ${message}`))
+      .toMatchInlineSnapshot(`
+      [
+        "favicon-192.png: Expected 192x192 pixels, got 512x512",
+        "favicon.ico: Expected frames of 16x16, 32x32 pixels, got 16x16, 32x32, 48x48",
+        "maskable-512.png: File is missing",
+        "manifest.webmanifest: Icon "/maskable-512.png" does not exist",
+        "/index.html: Missing <link rel="icon" href="/favicon.svg">",
+        "/index.html: Missing <link rel="apple-touch-icon" href="/apple-touch-icon.png">",
+        "/index.html: Missing <link rel="manifest" href="/manifest.webmanifest">",
+        "/index.html: Unexpected <link rel="icon" href="/old.png">",
+      ]
+    `)
+  })
+
+  test('should report invalid web manifests', async () => {
+    const outputDir = getTmpDir('check-manifest')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      warn: false,
+    })
+    await writeFile(joinPath(outputDir, 'manifest.webmanifest'), '{"icons": [')
+
+    const {issues} = await checkFavicons({outputDir})
+    expect(issues).toHaveLength(1)
+    expect(issues[0]!.file).toBe('manifest.webmanifest')
+    expect(issues[0]!.message).toMatch(/^Could not parse web manifest: /)
+  })
+
+  test('should report corrupt files as issues', async () => {
+    const outputDir = getTmpDir('check-corrupt')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      warn: false,
+    })
+    await writeFile(joinPath(outputDir, 'favicon-192.png'), 'not a png')
+    await writeFile(joinPath(outputDir, 'favicon.ico'), Buffer.alloc(4))
+
+    const {ok, issues} = await checkFavicons({outputDir})
+    expect(ok).toBe(false)
+    expect(issues.map(({file}) => file)).toEqual(['favicon-192.png', 'favicon.ico'])
+    expect(issues[0]!.message).toMatch(/unsupported image format/)
+  })
+
+  test('should only expect files matching the check options', async () => {
+    const outputDir = getTmpDir('check-options')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.png'),
+      outputDir,
+      manifest: false,
+      warn: false,
+    })
+
+    expect(await checkFavicons({outputDir, manifest: false, svg: false})).toMatchObject({
+      ok: true,
+      files: ['favicon-512.png', 'favicon-192.png', 'apple-touch-icon.png', 'favicon.ico'],
+    })
+  })
+
+  test('should generate a Safari pinned tab icon with `maskIcon`', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'nonSquare.svg'),
+      maskIcon: '#5bbad5',
+      warn: false,
+      write: false,
+    })
+
+    const maskIcon = result.files.find((file) => file.name === 'safari-pinned-tab.svg')
+    expect(maskIcon?.mimeType).toBe('image/svg+xml')
+    expect(maskIcon?.buffer.toString('utf8')).toMatchInlineSnapshot(
+      `"<svg width="200" height="250" version="1.1" xmlns="http://www.w3.org/2000/svg"><rect x="0" y="0" width="200" height="250" fill="none"/><rect x="0" y="0" width="100" height="100" fill="#000"/></svg>"`,
+    )
+    expect(result.links).toContainEqual({
+      rel: 'mask-icon',
+      href: '/safari-pinned-tab.svg',
+      color: '#5bbad5',
+    })
+  })
+
+  test('should make colors, styles and opacity single-color in the pinned tab icon', async () => {
+    const svg = [
+      '<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 10 10">',
+      '<style>.a{fill:red;opacity:.5}.b{fill:#FFF}</style>',
+      '<rect width="10" height="10" fill="white"/>',
+      '<path class="a" d="M0 0h5v5z" fill-opacity=".3"/>',
+      '<circle class="b" r="1"/>',
+      '<circle style="fill: blue; stroke: none" r="2"/>',
+      '<rect fill="url(#g)" width="1" height="1"/>',
+      '<defs><linearGradient id="g"><stop stop-color="red"/></linearGradient></defs>',
+      '</svg>',
+    ].join('')
+
+    const {files} = await createFavicon({
+      sourceFile: Buffer.from(svg),
+      maskIcon: 'black',
+      write: false,
+    })
+
+    const maskIcon = files.find((file) => file.name === 'safari-pinned-tab.svg')
+    expect(maskIcon?.buffer.toString('utf8')).toMatchInlineSnapshot(
+      `"<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 10 10"><style>.a{fill:#000;}.b{fill:none}</style><rect width="10" height="10" fill="none"/><path class="a" d="M0 0h5v5z"/><circle class="b" r="1"/><circle style="fill: #000; stroke: none" r="2"/><rect fill="#000" width="1" height="1"/></svg>"`,
+    )
+  })
+
+  test('should skip Safari pinned tab icon for non-SVG sources, with a warning', async () => {
+    const warn = vi.fn()
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.png'),
+      maskIcon: '#000',
+      warn,
+      write: false,
+    })
+
+    expect(result.fileNames['safari-pinned-tab.svg']).toBeUndefined()
+    expect(result.html).not.toContain('mask-icon')
+    expect(warn).toHaveBeenCalledWith(
+      'Source image is not an SVG - skipping Safari pinned tab icon',
+    )
+  })
+
+  test('should include theme color meta tags, with dark variant', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      maskIcon: '#5bbad5',
+      themeColor: '#ffffff',
+      darkThemeColor: '#101010',
+      format: 'next-metadata',
+      write: false,
+      warn: false,
+    })
+
+    expect(result.html).toMatchInlineSnapshot(`
+      "<link rel="icon" href="/favicon.ico" sizes="any">
+      <link rel="icon" href="/favicon.svg" type="image/svg+xml">
+      <link rel="apple-touch-icon" href="/apple-touch-icon.png">
+      <link rel="mask-icon" href="/safari-pinned-tab.svg" color="#5bbad5">
+      <link rel="manifest" href="/manifest.webmanifest">
+      <meta name="theme-color" content="#ffffff" media="(prefers-color-scheme: light)">
+      <meta name="theme-color" content="#101010" media="(prefers-color-scheme: dark)">"
+    `)
+    expect(JSON.parse(result.snippet)).toMatchInlineSnapshot(`
+      {
+        "icons": {
+          "apple": [
+            {
+              "url": "/apple-touch-icon.png",
+            },
+          ],
+          "icon": [
+            {
+              "sizes": "any",
+              "url": "/favicon.ico",
+            },
+            {
+              "type": "image/svg+xml",
+              "url": "/favicon.svg",
+            },
+          ],
+          "other": [
+            {
+              "color": "#5bbad5",
+              "rel": "mask-icon",
+              "url": "/safari-pinned-tab.svg",
+            },
+          ],
+        },
+        "manifest": "/manifest.webmanifest",
+      }
+    `)
+  })
+
+  test('should use the web manifest theme color for the meta tag by default', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      manifest: {themeColor: 'rebeccapurple'},
+      write: false,
+      warn: false,
+    })
+
+    expect(result.meta).toEqual([{name: 'theme-color', content: 'rebeccapurple'}])
+    expect(result.html).toContain('<meta name="theme-color" content="rebeccapurple">')
+  })
+
+  test('should throw on invalid theme and mask icon colors', async () => {
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    await expect(() =>
+      createFavicon({sourceFile, maskIcon: 'not-a-color', write: false}),
+    ).rejects.toThrow('Mask icon color must be a valid CSS color, got "not-a-color"')
+    await expect(() =>
+      createFavicon({sourceFile, darkThemeColor: '#12', write: false}),
+    ).rejects.toThrow('Dark theme color must be a valid CSS color, got "#12"')
+  })
+
+  test('should replace existing mask icon and theme color tags when injecting', async () => {
+    const outputDir = getTmpDir('inject-meta')
+    const htmlFile = joinPath(outputDir, 'index.html')
+    await mkdir(outputDir, {recursive: true})
+    await writeFile(
+      htmlFile,
+      [
+        '<html>',
+        '  <head>',
+        '    <meta charset="utf-8">',
+        '    <meta name="theme-color" content="#000000">',
+        '    <link rel="mask-icon" href="/old.svg" color="#000">',
+        '  </head>',
+        '</html>',
+        '',
+      ].join('\n'),
+    )
+
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      manifest: false,
+      maskIcon: '#5bbad5',
+      themeColor: '#ffffff',
+      inject: htmlFile,
+      warn: false,
+    })
+
+    expect(await readFile(htmlFile, 'utf8')).toMatchInlineSnapshot(`
+      "<html>
+        <head>
+          <meta charset="utf-8">
+          <link rel="icon" href="/favicon.ico" sizes="any">
+          <link rel="icon" href="/favicon.svg" type="image/svg+xml">
+          <link rel="apple-touch-icon" href="/apple-touch-icon.png">
+          <link rel="mask-icon" href="/safari-pinned-tab.svg" color="#5bbad5">
+          <meta name="theme-color" content="#ffffff">
+        </head>
+      </html>
+      "
+    `)
+  })
+
+  test('should generate Windows tiles and browserconfig.xml with `windowsTiles`', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      basePath: '/icons',
+      windowsTiles: true,
+      themeColor: '#2b5797',
+      format: 'next-metadata',
+      write: false,
+      warn: false,
+    })
+
+    const tiles = result.files.filter((file) => file.name.startsWith('mstile-'))
+    const dimensions = await Promise.all(
+      tiles.map(async ({name, buffer}) => {
+        const {width, height} = await sharp(buffer).metadata()
+        return `${name}: ${width}x${height}`
+      }),
+    )
+    expect(dimensions).toEqual([
+      'mstile-70x70.png: 70x70',
+      'mstile-150x150.png: 150x150',
+      'mstile-310x150.png: 310x150',
+      'mstile-310x310.png: 310x310',
+    ])
+
+    // Wide tile has the artwork centered, with transparent padding on the sides
+    const wide = tiles.find((file) => file.name === 'mstile-310x150.png')!
+    const {data, info} = await sharp(wide.buffer).raw().toBuffer({resolveWithObject: true})
+    const alphaAt = (x: number, y: number) => data[(y * info.width + x) * info.channels + 3]
+    expect(alphaAt(5, 75)).toBe(0)
+    expect(alphaAt(304, 75)).toBe(0)
+
+    const browserConfig = result.files.find((file) => file.name === 'browserconfig.xml')
+    expect(browserConfig?.mimeType).toBe('application/xml')
+    expect(browserConfig?.buffer.toString('utf8')).toMatchInlineSnapshot(`
+      "<?xml version="1.0" encoding="utf-8"?>
+      <browserconfig>
+        <msapplication>
+          <tile>
+            <square70x70logo src="/icons/mstile-70x70.png"/>
+            <square150x150logo src="/icons/mstile-150x150.png"/>
+            <wide310x150logo src="/icons/mstile-310x150.png"/>
+            <square310x310logo src="/icons/mstile-310x310.png"/>
+            <TileColor>#2b5797</TileColor>
+          </tile>
+        </msapplication>
+      </browserconfig>
+      "
+    `)
+
+    expect(result.meta).toEqual([
+      {name: 'theme-color', content: '#2b5797'},
+      {name: 'msapplication-TileColor', content: '#2b5797'},
+      {name: 'msapplication-config', content: '/icons/browserconfig.xml'},
+    ])
+    expect(result.html).toContain(
+      '<meta name="msapplication-config" content="/icons/browserconfig.xml">',
+    )
+    expect(JSON.parse(result.snippet).other).toEqual({
+      'msapplication-TileColor': '#2b5797',
+      'msapplication-config': '/icons/browserconfig.xml',
+    })
+  })
+
+  test('should use hashed tile names and the tile color in browserconfig.xml', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.png'),
+      windowsTiles: true,
+      tileColor: '#da532c',
+      hash: true,
+      warn: false,
+      write: false,
+    })
+
+    const browserConfig = result.files.find(
+      (file) => file.name === result.fileNames['browserconfig.xml'],
+    )
+    const xml = browserConfig!.buffer.toString('utf8')
+    expect(xml).toContain(`<square70x70logo src="/${result.fileNames['mstile-70x70.png']}"/>`)
+    expect(xml).toContain('<TileColor>#da532c</TileColor>')
+    expect(result.meta).toContainEqual({
+      name: 'msapplication-config',
+      content: `/${result.fileNames['browserconfig.xml']}`,
+    })
+  })
+
+  test('should default the tile color to white, and skip tiles unless enabled', async () => {
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    const tiled = await createFavicon({
+      sourceFile,
+      windowsTiles: true,
+      write: false,
+      warn: false,
+    })
+    expect(tiled.meta).toContainEqual({name: 'msapplication-TileColor', content: '#ffffff'})
+
+    const result = await createFavicon({
+      sourceFile,
+      tileColor: '#da532c',
+      write: false,
+      warn: false,
+    })
+    expect(result.files.map((file) => file.name)).not.toContain('browserconfig.xml')
+    expect(result.meta).toEqual([])
+
+    await expect(() =>
+      createFavicon({sourceFile, windowsTiles: true, tileColor: 'nope', write: false}),
+    ).rejects.toThrow('Tile color must be a valid CSS color, got "nope"')
+  })
+
+  test('should check Windows tiles and browserconfig.xml', async () => {
+    const outputDir = getTmpDir('check-tiles')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      warn: false,
+    })
+    expect(await checkFavicons({outputDir, windowsTiles: true})).toMatchObject({
+      ok: false,
+      issues: [
+        {file: 'mstile-70x70.png', message: 'File is missing'},
+        {file: 'mstile-150x150.png', message: 'File is missing'},
+        {file: 'mstile-310x150.png', message: 'File is missing'},
+        {file: 'mstile-310x310.png', message: 'File is missing'},
+        {file: 'browserconfig.xml', message: 'File is missing'},
+      ],
+    })
+
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      windowsTiles: true,
+      warn: false,
+    })
+    expect(await checkFavicons({outputDir, windowsTiles: true})).toMatchObject({ok: true})
+
+    await rm(joinPath(outputDir, 'mstile-310x310.png'))
+    await copyFile(
+      joinPath(outputDir, 'mstile-150x150.png'),
+      joinPath(outputDir, 'mstile-310x150.png'),
+    )
+    const {issues} = await checkFavicons({outputDir, windowsTiles: true})
+    expect(issues).toEqual([
+      {file: 'mstile-310x150.png', message: 'Expected 310x150 pixels, got 150x150'},
+      {file: 'mstile-310x310.png', message: 'File is missing'},
+      {file: 'browserconfig.xml', message: 'Tile "/mstile-310x310.png" does not exist'},
+    ])
+  })
+
+  test('should replace existing Windows tile meta tags when injecting', async () => {
+    const outputDir = getTmpDir('inject-tiles')
+    const htmlFile = joinPath(outputDir, 'index.html')
+    await mkdir(outputDir, {recursive: true})
+    await writeFile(
+      htmlFile,
+      [
+        '<head>',
+        '  <meta name="msapplication-TileColor" content="#000000">',
+        '  <meta name="msapplication-TileImage" content="/old-tile.png">',
+        '</head>',
+        '',
+      ].join('\n'),
+    )
+
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      manifest: false,
+      windowsTiles: true,
+      inject: htmlFile,
+      warn: false,
+    })
+
+    expect(await readFile(htmlFile, 'utf8')).toMatchInlineSnapshot(`
+      "<head>
+        <link rel="icon" href="/favicon.ico" sizes="any">
+        <link rel="icon" href="/favicon.svg" type="image/svg+xml">
+        <link rel="apple-touch-icon" href="/apple-touch-icon.png">
+        <meta name="msapplication-TileColor" content="#ffffff">
+        <meta name="msapplication-config" content="/browserconfig.xml">
+        <meta name="msapplication-TileImage" content="/old-tile.png">
+      </head>
+      "
+    `)
+  })
+
+  test('should keep meta tags of kinds that are not injected', async () => {
+    const outputDir = getTmpDir('inject-keep-meta')
+    const htmlFile = joinPath(outputDir, 'index.html')
+    await mkdir(outputDir, {recursive: true})
+    await writeFile(
+      htmlFile,
+      [
+        '<head>',
+        '  <meta name="theme-color" content="#123456">',
+        '  <meta name="msapplication-TileImage" content="/tile.png">',
+        '  <link rel="icon" href="/old.ico">',
+        '</head>',
+        '',
+      ].join('\n'),
+    )
+
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      manifest: false,
+      inject: htmlFile,
+      warn: false,
+    })
+
+    expect(await readFile(htmlFile, 'utf8')).toMatchInlineSnapshot(`
+      "<head>
+        <meta name="theme-color" content="#123456">
+        <meta name="msapplication-TileImage" content="/tile.png">
+        <link rel="icon" href="/favicon.ico" sizes="any">
+        <link rel="icon" href="/favicon.svg" type="image/svg+xml">
+        <link rel="apple-touch-icon" href="/apple-touch-icon.png">
+      </head>
+      "
+    `)
+  })
+
+  test('should render small icons from `smallSourceFile`', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      smallSourceFile: joinPath(fixturesPath, 'glyph.svg'),
+      write: false,
+      warn: false,
+    })
+
+    const ico = result.files.find((file) => file.name === 'favicon.ico')!
+    const isBlue = (data: Buffer) => data.every((value, i) => value === [0, 0, 255, 255][i % 4])
+    const frames = await decodeIco(ico.buffer)
+    expect(frames.map((frame) => [frame.width, isBlue(frame.data)])).toEqual([
+      [16, true],
+      [32, true],
+      [48, false],
+    ])
+
+    const png = result.files.find((file) => file.name === 'favicon-192.png')!
+    expect(isBlue(await sharp(png.buffer).raw().toBuffer())).toBe(false)
+  })
+
+  test('should use the small source up to `smallSourceMaxSize`', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      smallSourceFile: await readFile(joinPath(fixturesPath, 'glyph.svg')),
+      smallSourceMaxSize: 16,
+      write: false,
+      warn: false,
+    })
+
+    const ico = result.files.find((file) => file.name === 'favicon.ico')!
+    const [frame16, frame32] = await decodeIco(ico.buffer)
+    expect([...frame16!.data.subarray(0, 4)]).toEqual([0, 0, 255, 255])
+    expect([...frame32!.data.subarray(0, 4)]).not.toEqual([0, 0, 255, 255])
+  })
+
+  test('should check the small source separately', async () => {
+    const warn = vi.fn()
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      smallSourceFile: joinPath(fixturesPath, 'nonSquare.svg'),
+      write: false,
+      warn,
+    })
+    expect(warn).toHaveBeenCalledWith(
+      'Small source image is not square - it is HIGHLY recommended that input image is square',
+    )
+    expect(warn).not.toHaveBeenCalledWith(expect.stringMatching(/^Source image is not square/))
+
+    // Raster small sources only need to be as large as the icons rendered from them
+    await expect(
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        smallSourceFile: joinPath(fixturesPath, 'tooSmall.png'),
+        write: false,
+        warn: false,
+      }),
+    ).resolves.toBeTruthy()
+
+    const tiny = await sharp({
+      create: {width: 16, height: 16, channels: 4, background: '#0000ff'},
+    })
+      .png()
+      .toBuffer()
+    await expect(() =>
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        smallSourceFile: tiny,
+        write: false,
+      }),
+    ).rejects.toThrow('Small source image must be at least 32x32 pixels')
+    await expect(() =>
+      createFavicon({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        smallSourceFile: joinPath(fixturesPath, 'glyph.svg'),
+        smallSourceMaxSize: 0,
+        write: false,
+      }),
+    ).rejects.toThrow('Small source max size must be a positive integer, got "0"')
+  })
+
+  test('should skip maskable icons with the `minimal` preset', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      preset: 'minimal',
+      write: false,
+      warn: false,
+    })
+
+    expect(result.files.map((file) => file.name)).toEqual([
+      'favicon-512.png',
+      'favicon-192.png',
+      'apple-touch-icon.png',
+      'favicon.ico',
+      'manifest.webmanifest',
+      'favicon.svg',
+    ])
+
+    const manifest = result.files.find((file) => file.name === 'manifest.webmanifest')!
+    const {icons} = JSON.parse(manifest.buffer.toString('utf8'))
+    expect(icons.map((icon: {src: string}) => icon.src)).toEqual([
+      '/favicon-192.png',
+      '/favicon-512.png',
+    ])
+  })
+
+  test('should generate legacy icons and Windows tiles with the `legacy-full` preset', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      preset: 'legacy-full',
+      write: false,
+      warn: false,
+    })
+
+    expect(result.files.map((file) => file.name)).toEqual([
+      'favicon-512.png',
+      'favicon-192.png',
+      'apple-touch-icon.png',
+      'favicon.ico',
+      'favicon-16.png',
+      'favicon-32.png',
+      'favicon-96.png',
+      'maskable-192.png',
+      'maskable-512.png',
+      'manifest.webmanifest',
+      'mstile-70x70.png',
+      'mstile-150x150.png',
+      'mstile-310x150.png',
+      'mstile-310x310.png',
+      'browserconfig.xml',
+      'favicon.svg',
+    ])
+    expect(result.html).toMatchInlineSnapshot(`
+      "<link rel="icon" href="/favicon.ico" sizes="any">
+      <link rel="icon" href="/favicon.svg" type="image/svg+xml">
+      <link rel="icon" href="/favicon-16.png" type="image/png" sizes="16x16">
+      <link rel="icon" href="/favicon-32.png" type="image/png" sizes="32x32">
+      <link rel="icon" href="/favicon-96.png" type="image/png" sizes="96x96">
+      <link rel="apple-touch-icon" href="/apple-touch-icon.png">
+      <link rel="manifest" href="/manifest.webmanifest">
+      <meta name="msapplication-TileColor" content="#ffffff">
+      <meta name="msapplication-config" content="/browserconfig.xml">"
+    `)
+
+    const withoutTiles = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      preset: 'legacy-full',
+      windowsTiles: false,
+      write: false,
+      warn: false,
+    })
+    expect(withoutTiles.files.map((file) => file.name)).not.toContain('browserconfig.xml')
+  })
+
+  test('should generate additional icons with `icons`', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      icons: [{size: 128}, {size: 96, format: 'webp', name: 'google-tv.webp'}],
+      basePath: '/icons',
+      hash: true,
+      write: false,
+      warn: false,
+    })
+
+    const webp = result.files.find((file) => file.name === result.fileNames['google-tv.webp'])!
+    expect(webp.mimeType).toBe('image/webp')
+    expect(await sharp(webp.buffer).metadata()).toMatchObject({
+      format: 'webp',
+      width: 96,
+      height: 96,
+    })
+
+    expect(result.links.filter((link) => link.sizes && link.sizes !== 'any')).toEqual([
+      {
+        rel: 'icon',
+        href: `/icons/${result.fileNames['favicon-128.png']}`,
+        type: 'image/png',
+        sizes: '128x128',
+      },
+      {
+        rel: 'icon',
+        href: `/icons/${result.fileNames['google-tv.webp']}`,
+        type: 'image/webp',
+        sizes: '96x96',
+      },
+    ])
+
+    const manifest = result.files.find(
+      (file) => file.name === result.fileNames['manifest.webmanifest'],
+    )!
+    expect(JSON.parse(manifest.buffer.toString('utf8')).icons).toContainEqual({
+      src: `/icons/${result.fileNames['google-tv.webp']}`,
+      type: 'image/webp',
+      sizes: '96x96',
+    })
+  })
+
+  test('should throw on invalid presets and icons', async () => {
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    await expect(() =>
+      // @ts-expect-error -- We're testing the error case
+      createFavicon({sourceFile, preset: 'everything', write: false}),
+    ).rejects.toThrow(
+      'Invalid preset "everything" - must be one of "minimal", "pwa", "legacy-full"',
+    )
+    await expect(() =>
+      createFavicon({sourceFile, icons: [{size: 2048}], write: false}),
+    ).rejects.toThrow('Invalid icon size "2048" - must be an integer between 1 and 1024')
+    await expect(() =>
+      createFavicon({sourceFile, icons: [{size: 192}], write: false}),
+    ).rejects.toThrow('Icon name "favicon-192.png" is already used by another file')
+    await expect(() =>
+      createFavicon({sourceFile, icons: [{size: 64, name: '../icon.png'}], write: false}),
+    ).rejects.toThrow('Invalid icon name "../icon.png" - must be a file name with a .png extension')
+  })
+
+  test('should check sets generated with presets and additional icons', async () => {
+    const outputDir = getTmpDir('check-preset')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      preset: 'legacy-full',
+      icons: [{size: 128}],
+      warn: false,
+    })
+
+    expect(await checkFavicons({outputDir, preset: 'legacy-full', icons: [{size: 128}]})).toEqual(
+      expect.objectContaining({ok: true, issues: []}),
+    )
+
+    await rm(joinPath(outputDir, 'favicon-96.png'))
+    expect((await checkFavicons({outputDir, preset: 'legacy-full'})).issues).toEqual([
+      {file: 'favicon-96.png', message: 'File is missing'},
+      {file: 'manifest.webmanifest', message: 'Icon "/favicon-96.png" does not exist'},
+    ])
+  })
+
+  test('should draw a badge onto every icon with `badge`', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      badge: {text: 'DEV', color: '#e11'},
+      windowsTiles: true,
+      write: false,
+      warn: false,
+    })
+
+    const getPixel = (data: Buffer, width: number, x: number, y: number) =>
+      [...data.subarray((y * width + x) * 4, (y * width + x) * 4 + 3)].join(',')
+    const red = '238,17,17'
+
+    // Text badges are drawn as a bar along the bottom edge
+    for (const name of ['favicon-512.png', 'apple-touch-icon.png', 'mstile-310x150.png']) {
+      const file = result.files.find((other) => other.name === name)!
+      const {data, info} = await sharp(file.buffer)
+        .ensureAlpha()
+        .raw()
+        .toBuffer({resolveWithObject: true})
+      expect(getPixel(data, info.width, 2, info.height - 2)).toBe(red)
+    }
+
+    // ...except on frames too small for the text to be legible, which get a dot instead
+    const ico = result.files.find((file) => file.name === 'favicon.ico')!
+    const [frame16, frame32, frame48] = await decodeIco(ico.buffer)
+    expect(getPixel(frame16!.data, 16, 12, 12)).toBe(red)
+    expect(getPixel(frame32!.data, 32, 24, 24)).toBe(red)
+    expect(getPixel(frame32!.data, 32, 1, 30)).not.toBe(red)
+    expect(getPixel(frame48!.data, 48, 1, 46)).toBe(red)
+
+    // The SVG icon stays vector, with the dot as an element on top of the artwork
+    const svg = result.files.find((file) => file.name === 'favicon.svg')!.buffer.toString('utf8')
+    expect(svg).toMatch(/<g class="favicon-badge"><circle [^>]*fill="#e11"[^>]*\/><\/g><\/svg>$/)
+    expect(await sharp(Buffer.from(svg)).metadata()).toMatchObject({format: 'svg'})
+  })
+
+  test('should draw a dot badge if no text is given', async () => {
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.png'),
+      badge: {color: 'lime'},
+      warn: false,
+      write: false,
+    })
+
+    const file = result.files.find((other) => other.name === 'favicon-192.png')!
+    const {data, info} = await sharp(file.buffer).raw().toBuffer({resolveWithObject: true})
+    const pixelAt = (x: number, y: number) => {
+      const offset = (y * info.width + x) * info.channels
+      return [...data.subarray(offset, offset + 3)]
+    }
+    expect(pixelAt(146, 146)).toEqual([0, 255, 0])
+    expect(pixelAt(2, 190)).not.toEqual([0, 255, 0])
+  })
+
+  test('should throw on invalid badge options', async () => {
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    await expect(() =>
+      createFavicon({sourceFile, badge: {text: '  '}, write: false}),
+    ).rejects.toThrow('Badge text must be a non-empty string')
+    await expect(() =>
+      createFavicon({sourceFile, badge: {color: 'oklch(70% 0.1 200)'}, write: false}),
+    ).rejects.toThrow(
+      'Badge color must be a named, hex, rgb(), hsl() or hwb() CSS color, got "oklch(70% 0.1 200)"',
+    )
+    await expect(() =>
+      // @ts-expect-error -- We're testing the error case
+      createFavicon({sourceFile, badge: {position: 'top'}, write: false}),
+    ).rejects.toThrow('Unknown badge option "position"')
+  })
+
+  test('should only plan what would be written with `dryRun: true`', async () => {
+    const warn = vi.fn()
+    const outputDir = getTmpDir('dry-run')
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    const html = joinPath(outputDir, 'index.html')
+    await mkdir(outputDir, {recursive: true})
+    await writeFile(joinPath(outputDir, 'favicon.ico'), 'existing')
+    await writeFile(html, '<html><head><title>Mead</title></head></html>')
+
+    const result = await createFavicon({
+      sourceFile,
+      outputDir,
+      inject: html,
+      manifest: false,
+      dryRun: true,
+      warn,
+    })
+
+    expect(await readdir(outputDir)).toEqual(['favicon.ico', 'index.html'])
+    expect(await readFile(html, 'utf8')).toBe('<html><head><title>Mead</title></head></html>')
+    expect(warn).toHaveBeenCalledWith('File favicon.ico already exists - skipping')
+
+    const plan = result.plan!.map(({path, ...entry}) => ({
+      ...entry,
+      path: path.slice(outputDir.length + 1),
+      size: entry.size > 0,
+    }))
+    expect(plan).toEqual([
+      {path: 'favicon-512.png', action: 'create', width: 512, height: 512, size: true},
+      {path: 'favicon-192.png', action: 'create', width: 192, height: 192, size: true},
+      {path: 'apple-touch-icon.png', action: 'create', width: 180, height: 180, size: true},
+      {path: 'favicon.ico', action: 'skip', width: 48, height: 48, size: true},
+      {path: 'favicon.svg', action: 'create', width: 100, height: 100, size: true},
+      {path: 'index.html', action: 'overwrite', size: true},
+    ])
+
+    // The plan matches the sizes of the generated files
+    for (const [index, file] of result.files.entries()) {
+      expect(result.plan![index]!.size).toBe(file.buffer.length)
+    }
+
+    const overwrite = await createFavicon({
+      sourceFile,
+      outputDir,
+      overwrite: true,
+      dryRun: true,
+      warn: false,
+    })
+    expect(overwrite.plan!.find(({path}) => path.endsWith('favicon.ico'))?.action).toBe('overwrite')
+    expect(await readFile(joinPath(outputDir, 'favicon.ico'), 'utf8')).toBe('existing')
+  })
+
+  test('should return what was done with each file as `plan` when writing', async () => {
+    const outputDir = getTmpDir('plan')
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    const first = await createFavicon({
+      sourceFile,
+      outputDir,
+      manifest: false,
+      warn: false,
+    })
+    expect(first.plan!.map(({action}) => action)).toEqual([
+      'create',
+      'create',
+      'create',
+      'create',
+      'create',
+    ])
+
+    const second = await createFavicon({
+      sourceFile,
+      outputDir,
+      manifest: false,
+      warn: false,
+    })
+    expect(second.plan!.every(({action}) => action === 'skip')).toBe(true)
+
+    const inMemory = await createFavicon({
+      sourceFile,
+      write: false,
+      warn: false,
+    })
+    expect(inMemory.plan).toBeUndefined()
+  })
+
+  test('should collect warnings with codes on the result', async () => {
+    const outputDir = getTmpDir('warnings')
+    await mkdir(outputDir, {recursive: true})
+    await writeFile(joinPath(outputDir, 'favicon.ico'), 'existing')
+
+    const result = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'nonSquare.svg'),
+      outputDir,
+      maskIcon: '#000',
+      darkMode: {'#123456': '#654321'},
+      appleTouchIcon: {background: '#fff'},
+      warn: false,
+    })
+
+    expect(result.warnings).toEqual([
+      {
+        code: 'NON_SQUARE_SOURCE',
+        message: 'Source image is not square - it is HIGHLY recommended that input image is square',
+      },
+      {
+        code: 'DARK_MODE_COLORS_NOT_FOUND',
+        message: 'None of the dark mode colors were found in the source SVG',
+        file: 'favicon.svg',
+      },
+      {
+        code: 'FILE_EXISTS_SKIPPED',
+        message: 'File favicon.ico already exists - skipping',
+        file: 'favicon.ico',
+      },
+    ])
+
+    const png = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.png'),
+      maskIcon: '#000',
+      warn: false,
+      write: false,
+    })
+    expect(png.warnings.map(({code, file}) => ({code, file}))).toEqual([
+      {code: 'NON_SVG_SOURCE', file: 'favicon.svg'},
+      {code: 'TRANSPARENT_APPLE_TOUCH_ICON', file: 'apple-touch-icon.png'},
+      {code: 'NON_SVG_SOURCE', file: 'safari-pinned-tab.svg'},
+    ])
+  })
+
+  test('should fail on warnings with `failOnWarning`, before writing anything', async () => {
+    const outputDir = getTmpDir('fail-on-warning')
+    await mkdir(outputDir, {recursive: true})
+    await writeFile(joinPath(outputDir, 'favicon.ico'), 'existing')
+    const sourceFile = joinPath(fixturesPath, 'nonSquare.svg')
+
+    await expect(() =>
+      createFavicon({sourceFile, outputDir, failOnWarning: true, warn: false}),
+    ).rejects.toThrow(
+      'Source image is not square - it is HIGHLY recommended that input image is square (NON_SQUARE_SOURCE warning treated as an error)',
+    )
+
+    // Only the given warnings fail the generation - others are still only warnings
+    await expect(() =>
+      createFavicon({sourceFile, outputDir, failOnWarning: ['FILE_EXISTS_SKIPPED'], warn: false}),
+    ).rejects.toThrow(
+      'File favicon.ico already exists - skipping (FILE_EXISTS_SKIPPED warning treated as an error)',
+    )
+    expect(await readdir(outputDir)).toEqual(['favicon.ico'])
+
+    const result = await createFavicon({
+      sourceFile,
+      outputDir,
+      overwrite: true,
+      failOnWarning: ['FILE_EXISTS_SKIPPED'],
+      warn: false,
+    })
+    expect(result.warnings.map(({code}) => code)).toContain('FILE_EXISTS_REPLACED')
+
+    await expect(() =>
+      // @ts-expect-error -- We're testing the error case
+      createFavicon({sourceFile, failOnWarning: ['NOT_SQUARE'], write: false}),
+    ).rejects.toThrow('Unknown warning code "NOT_SQUARE" - must be one of "NON_SVG_SOURCE"')
+  })
+
+  test('should throw errors with stable codes', async () => {
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    const cases: Array<[FaviconOptions, string]> = [
+      [{sourceFile, icoSizes: [0], write: false}, 'INVALID_OPTION'],
+      [{sourceFile: 'does-not-exist.png', write: false}, 'SOURCE_UNAVAILABLE'],
+      [{sourceFile: joinPath(fixturesPath, 'tooSmall.png'), write: false}, 'INVALID_SOURCE'],
+      [{sourceFile: Buffer.from('not an image'), write: false}, 'INVALID_SOURCE'],
+      [
+        {
+          sourceFile,
+          inject: joinPath(fixturesPath, 'missing.html'),
+          warn: false,
+        },
+        'INVALID_HTML',
+      ],
+      [{sourceFile, failOnWarning: true, warn: false, darkMode: {red: 'blue'}}, 'WARNING_AS_ERROR'],
+    ]
+
+    for (const [options, code] of cases) {
+      const error = await createFavicon(options).catch((err: unknown) => err)
+      expect(error).toBeInstanceOf(FaviconError)
+      expect(error).toMatchObject({code})
+    }
+  })
+
+  test('should return metadata of the source image', async () => {
+    const sourceFile = joinPath(fixturesPath, 'mead.png')
+    const result = await createFavicon({sourceFile, warn: false, write: false})
+    expect(result.source).toEqual({
+      format: 'png',
+      width: 512,
+      height: 512,
+      size: (await stat(sourceFile)).size,
+    })
+  })
+
+  test('should bundle the files into an archive with `archive`', async () => {
+    const outputDir = getTmpDir('archive')
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    const result = await createFavicon({
+      sourceFile,
+      outputDir,
+      archive: {format: 'zip'},
+      warn: false,
+    })
+
+    // Without a file, the archive is only returned - nothing is written
+    expect(existsSync(outputDir)).toBe(false)
+    expect(result.plan).toEqual([])
+
+    const zip = readZip(result.archive!)
+    expect(Object.keys(zip)).toEqual([...result.files.map((file) => file.name), 'head.html'])
+    expect(zip['head.html']!.toString('utf8')).toBe(`${result.html}\n`)
+    for (const file of result.files) {
+      expect(zip[file.name]!.equals(file.buffer)).toBe(true)
+    }
+
+    // The format is picked from the file extension, and the archive written to the file
+    const archiveFile = joinPath(outputDir, 'icons.tar')
+    const tarResult = await createFavicon({sourceFile, archive: {file: archiveFile}, warn: false})
+    expect(tarResult.plan).toEqual([
+      {path: archiveFile, action: 'create', size: tarResult.archive!.length},
+    ])
+    expect(await readdir(outputDir)).toEqual(['icons.tar'])
+    const tar = readTar(await readFile(archiveFile))
+    expect(Object.keys(tar)).toEqual(Object.keys(zip))
+    expect(tar['favicon.svg']!.equals(zip['favicon.svg']!)).toBe(true)
+
+    // Existing archives are only replaced with `overwrite`
+    const warn = vi.fn()
+    await createFavicon({sourceFile, archive: {file: archiveFile}, warn})
+    expect(warn).toHaveBeenCalledWith(`File ${archiveFile} already exists - skipping`)
+  })
+
+  test('should throw on invalid archive options', async () => {
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    await expect(() =>
+      // @ts-expect-error -- We're testing the error case
+      createFavicon({sourceFile, archive: {format: 'rar'}, write: false}),
+    ).rejects.toThrow('Invalid archive format "rar" - must be one of "zip", "tar"')
+    // Unknown extensions fall back to zip
+    const {archive} = await createFavicon({
+      sourceFile,
+      archive: {file: 'icons.7z'},
+      write: false,
+      warn: false,
+    })
+    expect(archive!.subarray(0, 4).toString('latin1')).toBe('PK\u0003\u0004')
+    await expect(() =>
+      // @ts-expect-error -- We're testing the error case
+      createFavicon({sourceFile, archive: {path: 'icons.zip'}, write: false}),
+    ).rejects.toThrow('Unknown archive option "path"')
   })
 })
@@ -1,13 +1,14 @@
 import {createReadStream, existsSync, mkdirSync} from 'node:fs'
-import {stat, readFile, mkdir, rm, copyFile} from 'node:fs/promises'
+import {stat, readFile, readdir, mkdir, rm, copyFile, writeFile} from 'node:fs/promises'
 import {join as joinPath} from 'node:path'
 import {tmpdir} from 'node:os'
 import {createHash} from 'node:crypto'
 import {type Server, createServer} from 'node:http'
-import type {SpawnSyncOptions, SpawnSyncReturns} from 'node:child_process'
-import {spawnSync} from 'node:child_process'
+import type {ChildProcess, SpawnSyncOptions, SpawnSyncReturns} from 'node:child_process'
+import {spawn, spawnSync} from 'node:child_process'
 import {afterAll, beforeAll, describe, expect, test} from 'vitest'
 import sharp from 'sharp'
+import {decodeIco} from '../src/ico.js'
 
 let tmpDirNum = 0
 const testOutputDir = joinPath(tmpdir(), 'favicons-cli-output')
@@ -27,6 +28,36 @@ function getTmpDir(stub = ''): string {
   return tmpDir
 }
 
+/**
+ * Resolves with the output of the given stream once it matches the given pattern,
+ * consuming the output so that subsequent calls only see new output
+ */
+function waitForOutput(
+  child: ChildProcess,
+  stream: 'stdout' | 'stderr',
+  pattern: RegExp,
+  timeoutMs = 15000,
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let output = ''
+    const timer = setTimeout(() => {
+      child[stream]?.off('data', onData)
+      reject(new Error(`Timed out waiting for ${pattern} on ${stream}, got: ${output}`))
+    }, timeoutMs)
+
+    function onData(chunk: Buffer) {
+      output += chunk.toString('utf8')
+      if (pattern.test(output)) {
+        clearTimeout(timer)
+        child[stream]?.off('data', onData)
+        resolve(output)
+      }
+    }
+
+    child[stream]?.on('data', onData)
+  })
+}
+
 async function hashFile(filePath: string): Promise<string> {
   return createHash('sha256')
     .update(await readFile(filePath))
@@ -123,7 +154,9 @@ describe('cli', () => {
     const result = createFavicon([sourceFile, outputDir])
     expect(result.status).toBe(0)
 
-    expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).toBe(await hashFile(sourceFile))
+    expect(await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')).toMatchInlineSnapshot(
+      `"<svg width="200" height="250" version="1.1" xmlns="http://www.w3.org/2000/svg"><rect x="0" y="0" width="200" height="250" fill="white"/><rect x="0" y="0" width="100" height="100" fill="red"/></svg>"`,
+    )
 
     expect(await sharp(joinPath(outputDir, 'apple-touch-icon.png')).metadata()).toMatchObject({
       width: 180,
@@ -155,7 +188,9 @@ describe('cli', () => {
     const sourceFile = joinPath(fixturesPath, 'mead.svg')
     const result = await createFavicon([sourceFile, outputDir])
 
-    expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).toBe(await hashFile(sourceFile))
+    expect((await stat(joinPath(outputDir, 'favicon.svg'))).size).toBeLessThan(
+      (await stat(sourceFile)).size,
+    )
 
     expect(result.stdout).toMatchInlineSnapshot(`
       "<link rel="icon" href="/favicon.ico" sizes="any">
@@ -190,21 +225,33 @@ describe('cli', () => {
 
     expect(JSON.parse(await readFile(joinPath(outputDir, 'manifest.webmanifest'), 'utf8')))
       .toMatchInlineSnapshot(`
-    {
-      "icons": [
-        {
-          "sizes": "192x192",
-          "src": "/favicon-192.png",
-          "type": "image/png",
-        },
         {
-          "sizes": "512x512",
-          "src": "/favicon-512.png",
-          "type": "image/png",
-        },
-      ],
-    }
-    `)
+          "icons": [
+            {
+              "sizes": "192x192",
+              "src": "/favicon-192.png",
+              "type": "image/png",
+            },
+            {
+              "sizes": "512x512",
+              "src": "/favicon-512.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "192x192",
+              "src": "/maskable-192.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "512x512",
+              "src": "/maskable-512.png",
+              "type": "image/png",
+            },
+          ],
+        }
+      `)
   })
 
   test('should skip writing webmanifest if `manifest` is set to `false`', async () => {
@@ -212,7 +259,9 @@ describe('cli', () => {
     const sourceFile = joinPath(fixturesPath, 'mead.svg')
     const result = await createFavicon([sourceFile, outputDir, '--no-manifest'])
 
-    expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).toBe(await hashFile(sourceFile))
+    expect((await stat(joinPath(outputDir, 'favicon.svg'))).size).toBeLessThan(
+      (await stat(sourceFile)).size,
+    )
     expect(existsSync(joinPath(outputDir, 'manifest.webmanifest'))).toBe(false)
 
     expect(result.stdout).toMatchInlineSnapshot(`
@@ -325,21 +374,33 @@ describe('cli', () => {
 
     expect(JSON.parse(await readFile(joinPath(outputDir, 'manifest.webmanifest'), 'utf8')))
       .toMatchInlineSnapshot(`
-      {
-        "icons": [
-          {
-            "sizes": "192x192",
-            "src": "/favicon-192.png",
-            "type": "image/png",
-          },
-          {
-            "sizes": "512x512",
-            "src": "/favicon-512.png",
-            "type": "image/png",
-          },
-        ],
-      }
-    `)
+        {
+          "icons": [
+            {
+              "sizes": "192x192",
+              "src": "/favicon-192.png",
+              "type": "image/png",
+            },
+            {
+              "sizes": "512x512",
+              "src": "/favicon-512.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "192x192",
+              "src": "/maskable-192.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "512x512",
+              "src": "/maskable-512.png",
+              "type": "image/png",
+            },
+          ],
+        }
+      `)
   })
 
   test('should be able to specify custom base path', async () => {
@@ -361,20 +422,813 @@ describe('cli', () => {
 
     expect(JSON.parse(await readFile(joinPath(outputDir, 'manifest.webmanifest'), 'utf8')))
       .toMatchInlineSnapshot(`
-      {
-        "icons": [
-          {
-            "sizes": "192x192",
-            "src": "/foo/bar/favicon-192.png",
-            "type": "image/png",
-          },
-          {
-            "sizes": "512x512",
-            "src": "/foo/bar/favicon-512.png",
-            "type": "image/png",
-          },
-        ],
-      }
+        {
+          "icons": [
+            {
+              "sizes": "192x192",
+              "src": "/foo/bar/favicon-192.png",
+              "type": "image/png",
+            },
+            {
+              "sizes": "512x512",
+              "src": "/foo/bar/favicon-512.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "192x192",
+              "src": "/foo/bar/maskable-192.png",
+              "type": "image/png",
+            },
+            {
+              "purpose": "maskable",
+              "sizes": "512x512",
+              "src": "/foo/bar/maskable-512.png",
+              "type": "image/png",
+            },
+          ],
+        }
+      `)
+  })
+
+  test('should be able to specify custom ICO sizes', async () => {
+    const outputDir = getTmpDir('ico-sizes')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--ico-sizes',
+      '16, 32,48,256',
+    ])
+    expect(result.status).toBe(0)
+
+    const ico = await readFile(joinPath(outputDir, 'favicon.ico'))
+    const count = ico.readUInt16LE(4)
+    const widths = Array.from({length: count}, (_, i) => ico.readUInt8(6 + i * 16) || 256)
+    expect(widths).toEqual([16, 32, 48, 256])
+  })
+
+  test('should throw on invalid ICO sizes', () => {
+    const result = createFavicon([joinPath(fixturesPath, 'mead.svg'), '--ico-sizes', '16,foo'], {
+      cwd: getTmpDir(),
+    })
+    expect(result.stderr).toContain('Invalid ICO size "foo" - must be a number')
+    expect(result.status).toBe(1)
+
+    const extra = createFavicon([joinPath(fixturesPath, 'mead.svg'), '--extra-sizes', '96,,128'], {
+      cwd: getTmpDir(),
+    })
+    expect(extra.stderr).toContain('Invalid icon size "" - must be a number')
+    expect(extra.status).toBe(1)
+  })
+
+  test('should be able to specify web manifest members', async () => {
+    const outputDir = getTmpDir('manifest-members')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--name',
+      'Mead Hall',
+      '--short-name',
+      'Mead',
+      '--start-url',
+      '/?source=pwa',
+      '--display',
+      'minimal-ui',
+      '--theme-color',
+      'rebeccapurple',
+      '--background-color',
+      '#ffffff',
+    ])
+    expect(result.status).toBe(0)
+
+    expect(
+      JSON.parse(await readFile(joinPath(outputDir, 'manifest.webmanifest'), 'utf8')),
+    ).toMatchObject({
+      name: 'Mead Hall',
+      short_name: 'Mead',
+      start_url: '/?source=pwa',
+      display: 'minimal-ui',
+      theme_color: 'rebeccapurple',
+      background_color: '#ffffff',
+    })
+  })
+
+  test('should throw on invalid web manifest members, without writing files', () => {
+    const outputDir = getTmpDir('manifest-invalid')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--theme-color',
+      '#ggg',
+    ])
+    expect(result.stderr).toContain('Manifest option "themeColor" must be a valid CSS color')
+    expect(result.status).toBe(1)
+    expect(existsSync(joinPath(outputDir, 'favicon.ico'))).toBe(false)
+  })
+
+  test('should be able to specify maskable icon background', async () => {
+    const outputDir = getTmpDir('maskable')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--maskable-background',
+      'blue',
+    ])
+    expect(result.status).toBe(0)
+
+    const {data} = await sharp(joinPath(outputDir, 'maskable-512.png'))
+      .raw()
+      .toBuffer({resolveWithObject: true})
+    expect([...data.subarray(0, 3)]).toEqual([0, 0, 255])
+  })
+
+  test('should be able to specify dark mode colors', async () => {
+    const outputDir = getTmpDir('dark-colors')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--dark-colors',
+      '#ff9300=rgb(0, 0, 0)',
+    ])
+    expect(result.status).toBe(0)
+
+    const svg = await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')
+    expect(svg).toContain(
+      '@media (prefers-color-scheme: dark){.favicon-dark-0{fill:rgb(0, 0, 0)!important}}',
+    )
+  })
+
+  test('should be able to specify a dark mode variant', async () => {
+    const outputDir = getTmpDir('dark-source')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--dark-source',
+      joinPath(fixturesPath, 'darkVariant.svg'),
+    ])
+    expect(result.status).toBe(0)
+
+    const svg = await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')
+    expect(svg).toContain('class="favicon-dark"')
+  })
+
+  test('should throw on malformed dark mode color mapping', () => {
+    const result = createFavicon([joinPath(fixturesPath, 'mead.svg'), '--dark-colors', '#000'], {
+      cwd: getTmpDir(),
+    })
+    expect(result.stderr).toContain('Invalid color mapping "#000" - expected format "from=to"')
+    expect(result.status).toBe(1)
+  })
+
+  test('should be able to disable SVG optimization', async () => {
+    const outputDir = getTmpDir('no-optimize-svg')
+    const sourceFile = joinPath(fixturesPath, 'editorExport.svg')
+    const result = createFavicon([sourceFile, outputDir, '--no-optimize-svg'])
+    expect(result.status).toBe(0)
+
+    expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).toBe(await hashFile(sourceFile))
+  })
+
+  test('should read options from favicon.config.json in the working directory', async () => {
+    const cwd = getTmpDir('config-json')
+    await writeFile(
+      joinPath(cwd, 'favicon.config.json'),
+      JSON.stringify({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        outputDir: './icons',
+        basePath: '/assets',
+        manifest: {name: 'Config App', themeColor: '#663399'},
+      }),
+    )
+
+    const result = createFavicon([], {cwd})
+    expect(result.status).toBe(0)
+    expect(result.stdout).toContain('<link rel="icon" href="/assets/favicon.ico" sizes="any">')
+
+    const manifest = JSON.parse(
+      await readFile(joinPath(cwd, 'icons', 'manifest.webmanifest'), 'utf8'),
+    )
+    expect(manifest).toMatchObject({name: 'Config App', theme_color: '#663399'})
+  })
+
+  test('should let CLI flags override config values', async () => {
+    const cwd = getTmpDir('config-override')
+    await writeFile(
+      joinPath(cwd, 'favicon.config.json'),
+      JSON.stringify({
+        sourceFile: joinPath(fixturesPath, 'nonSquare.svg'),
+        basePath: '/assets',
+        manifest: {name: 'Config App', themeColor: '#663399'},
+      }),
+    )
+
+    const outputDir = joinPath(cwd, 'out')
+    const result = createFavicon(
+      [
+        joinPath(fixturesPath, 'mead.svg'),
+        outputDir,
+        '--base-path',
+        '/static',
+        '--name',
+        'Flag App',
+      ],
+      {cwd},
+    )
+    expect(result.status).toBe(0)
+    expect(result.stderr).not.toMatch(/not square/)
+    expect(result.stdout).toContain('href="/static/favicon.ico"')
+
+    // Manifest member flags are merged with the members from the config
+    const manifest = JSON.parse(await readFile(joinPath(outputDir, 'manifest.webmanifest'), 'utf8'))
+    expect(manifest).toMatchObject({name: 'Flag App', theme_color: '#663399'})
+  })
+
+  test('should read options from the `favicon` key in package.json', async () => {
+    const cwd = getTmpDir('config-pkg')
+    await copyFile(joinPath(fixturesPath, 'mead.svg'), joinPath(cwd, 'logo.svg'))
+    await writeFile(
+      joinPath(cwd, 'package.json'),
+      JSON.stringify({name: 'some-app', favicon: {sourceFile: 'logo.svg', manifest: false}}),
+    )
+
+    const result = createFavicon([], {cwd})
+    expect(result.status).toBe(0)
+    expect(existsSync(joinPath(cwd, 'favicons', 'favicon.svg'))).toBe(true)
+    expect(existsSync(joinPath(cwd, 'favicons', 'manifest.webmanifest'))).toBe(false)
+  })
+
+  test('should read options from a config file given by --config', async () => {
+    const cwd = getTmpDir('config-js')
+    await mkdir(joinPath(cwd, 'config'))
+    await writeFile(
+      joinPath(cwd, 'config', 'icons.mjs'),
+      `export default ${JSON.stringify({sourceFile: joinPath(fixturesPath, 'mead.svg'), outputDir: '../out', icoSizes: [16, 32]})}`,
+    )
+
+    const result = createFavicon(['--config', 'config/icons.mjs'], {cwd})
+    expect(result.status).toBe(0)
+
+    // Relative paths are resolved from the directory of the config file
+    expect(existsSync(joinPath(cwd, 'out', 'favicon.ico'))).toBe(true)
+  })
+
+  test('should throw on invalid config, naming the option and file', async () => {
+    const cwd = getTmpDir('config-invalid')
+    const configPath = joinPath(cwd, 'favicon.config.json')
+    await writeFile(configPath, JSON.stringify({sourceFile: 'logo.svg', icoSize: [16]}))
+
+    let result = createFavicon([], {cwd})
+    expect(result.stderr).toContain(`Unknown option "icoSize" in config file ${configPath}`)
+    expect(result.status).toBe(1)
+
+    // Inherited object keys are not options either
+    await writeFile(configPath, JSON.stringify({sourceFile: 'logo.svg', toString: 'logo'}))
+    result = createFavicon([], {cwd})
+    expect(result.stderr).toContain(`Unknown option "toString" in config file ${configPath}`)
+    expect(result.status).toBe(1)
+
+    await writeFile(configPath, JSON.stringify({manifest: {display: 'windowed'}}))
+    result = createFavicon([], {cwd})
+    expect(result.stderr).toContain(
+      `Option "manifest" in config file ${configPath} is invalid: Manifest option "display" must be one of`,
+    )
+    expect(result.status).toBe(1)
+
+    await writeFile(configPath, JSON.stringify({maskableBackground: 'notacolor'}))
+    result = createFavicon([], {cwd})
+    expect(result.stderr).toContain(
+      `Option "maskableBackground" in config file ${configPath} must be a named, hex, rgb(), hsl() or hwb() CSS color`,
+    )
+    expect(result.status).toBe(1)
+
+    await writeFile(configPath, JSON.stringify({icoSizes: [0]}))
+    result = createFavicon([], {cwd})
+    expect(result.stderr).toContain(
+      `Option "icoSizes" in config file ${configPath} is invalid: Invalid ICO size "0"`,
+    )
+    expect(result.status).toBe(1)
+  })
+
+  test('should throw on invalid `favicon` key in package.json, naming the option', async () => {
+    const cwd = getTmpDir('config-pkg-invalid')
+    const pkgPath = joinPath(cwd, 'package.json')
+    await writeFile(pkgPath, JSON.stringify({favicon: {overwrite: 'yes'}}))
+
+    const result = createFavicon([], {cwd})
+    expect(result.stderr).toContain(
+      `Option "favicon.overwrite" in config file ${pkgPath} must be a boolean`,
+    )
+    expect(result.status).toBe(1)
+  })
+
+  test('should write a starter config with `init`', async () => {
+    const cwd = getTmpDir('config-init')
+    let result = createFavicon(['init'], {cwd})
+    expect(result.status).toBe(0)
+    expect(result.stdout).toContain('Created favicon.config.json')
+
+    const config = JSON.parse(await readFile(joinPath(cwd, 'favicon.config.json'), 'utf8'))
+    expect(config).toMatchObject({sourceFile: './logo.svg', outputDir: './public'})
+
+    // Refuses to overwrite existing config, unless explicitly asked to
+    result = createFavicon(['init'], {cwd})
+    expect(result.stderr).toContain('already exists - use --overwrite to replace it')
+    expect(result.status).toBe(1)
+
+    // The generated config is valid, and picked up by the CLI
+    await copyFile(joinPath(fixturesPath, 'mead.svg'), joinPath(cwd, 'logo.svg'))
+    result = createFavicon([], {cwd})
+    expect(result.status).toBe(0)
+    expect(existsSync(joinPath(cwd, 'public', 'favicon.svg'))).toBe(true)
+  })
+
+  test('should write a starter JavaScript config with `init --config`', async () => {
+    const cwd = getTmpDir('config-init-js')
+    await writeFile(joinPath(cwd, 'package.json'), JSON.stringify({type: 'module'}))
+    const result = createFavicon(['init', '--config', 'favicon.config.js'], {cwd})
+    expect(result.status).toBe(0)
+
+    const config = await readFile(joinPath(cwd, 'favicon.config.js'), 'utf8')
+    expect(config).toContain("/** @type {import('create-favicon').FaviconConfig} */")
+    expect(config).toContain('export default {')
+  })
+
+  test('should regenerate on source changes in watch mode', {timeout: 30000}, async () => {
+    const cwd = getTmpDir('watch')
+    const sourceFile = joinPath(cwd, 'logo.svg')
+    const outputDir = joinPath(cwd, 'out')
+    await copyFile(joinPath(fixturesPath, 'mead.svg'), sourceFile)
+
+    // Existing files are left alone without --overwrite, as in a single run
+    await mkdir(outputDir)
+    await writeFile(joinPath(outputDir, 'favicon.ico'), 'existing')
+
+    const child = spawn(cliPath, [sourceFile, outputDir, '--watch'], {cwd})
+    try {
+      const initial = await waitForOutput(child, 'stdout', /Watching for changes/)
+      expect(initial).toContain('<link rel="icon" href="/favicon.svg" type="image/svg+xml">')
+      expect(initial).toMatch(/Updated 7 of 8 files: favicon-512\.png, /)
+      expect(initial).toContain(
+        'Skipped existing files (use --overwrite to replace them): favicon.ico',
+      )
+      const initialHash = await hashFile(joinPath(outputDir, 'favicon.svg'))
+
+      // Errors (eg a half-written file) are reported, but do not stop the watcher
+      await writeFile(sourceFile, '<svg xmlns="http://www.w3.org/2000/svg"')
+      expect(await waitForOutput(child, 'stderr', /Failed to generate favicons/)).toBeTruthy()
+      expect(child.exitCode).toBe(null)
+      expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).toBe(initialHash)
+
+      await copyFile(joinPath(fixturesPath, 'nonSquare.svg'), sourceFile)
+      const update = await waitForOutput(child, 'stdout', /Updated \d+ of 8 files/)
+      expect(update).toContain('favicon.svg')
+      expect(await hashFile(joinPath(outputDir, 'favicon.svg'))).not.toBe(initialHash)
+      expect(await readFile(joinPath(outputDir, 'favicon.ico'), 'utf8')).toBe('existing')
+    } finally {
+      child.kill()
+    }
+  })
+
+  test('should pick up JavaScript config changes in watch mode', {timeout: 30000}, async () => {
+    const cwd = getTmpDir('watch-config')
+    const configPath = joinPath(cwd, 'favicon.config.js')
+    const getConfig = (basePath: string) =>
+      `export default ${JSON.stringify({sourceFile: joinPath(fixturesPath, 'mead.svg'), outputDir: 'out', basePath, warn: false})}`
+
+    await writeFile(joinPath(cwd, 'package.json'), JSON.stringify({type: 'module'}))
+    await writeFile(configPath, getConfig('/a/'))
+
+    const child = spawn(cliPath, ['--watch'], {cwd})
+    try {
+      const initial = await waitForOutput(child, 'stdout', /Watching for changes/)
+      expect(initial).toContain('<link rel="icon" href="/a/favicon.svg" type="image/svg+xml">')
+
+      await writeFile(configPath, getConfig('/b/'))
+      const update = await waitForOutput(child, 'stdout', /href="\/b\/favicon\.svg"/)
+      expect(update).not.toContain('/a/')
+    } finally {
+      child.kill()
+    }
+  })
+
+  test('should be able to include content hashes in file names', async () => {
+    const outputDir = getTmpDir('hash')
+    const result = createFavicon([joinPath(fixturesPath, 'mead.svg'), outputDir, '--hash'])
+    expect(result.status).toBe(0)
+
+    const files = await readdir(outputDir)
+    const ico = files.find((file) => /^favicon\.[0-9a-f]{7}\.ico$/.test(file))
+    expect(ico).toBeDefined()
+    expect(result.stdout).toContain(`<link rel="icon" href="/${ico}" sizes="any">`)
+    expect(files).not.toContain('favicon-512.png')
+  })
+
+  test('should be able to inject tags into an HTML file', async () => {
+    const cwd = getTmpDir('inject')
+    await copyFile(joinPath(fixturesPath, 'index.html'), joinPath(cwd, 'index.html'))
+
+    const result = createFavicon(
+      [joinPath(fixturesPath, 'mead.svg'), 'public', '--inject', 'index.html', '--hash'],
+      {cwd},
+    )
+    expect(result.status).toBe(0)
+
+    const html = await readFile(joinPath(cwd, 'index.html'), 'utf8')
+    for (const line of result.stdout.trim().split('\n')) {
+      expect(html).toContain(`        ${line}\n`)
+    }
+    expect(html).not.toContain('/old/')
+  })
+
+  test('should be able to print tags in other formats', () => {
+    const outputDir = getTmpDir('format')
+    const result = createFavicon([joinPath(fixturesPath, 'mead.svg'), outputDir, '--format', 'jsx'])
+    expect(result.status).toBe(0)
+    expect(result.stdout).toMatchInlineSnapshot(`
+      "<>
+        <link rel="icon" href="/favicon.ico" sizes="any" />
+        <link rel="icon" href="/favicon.svg" type="image/svg+xml" />
+        <link rel="apple-touch-icon" href="/apple-touch-icon.png" />
+        <link rel="manifest" href="/manifest.webmanifest" />
+      </>
+      "
     `)
   })
+
+  test('should throw on invalid format', () => {
+    const outputDir = getTmpDir('format-invalid')
+    const result = createFavicon([joinPath(fixturesPath, 'mead.svg'), outputDir, '--format', 'pug'])
+    expect(result.status).toBe(1)
+    expect(result.stderr).toContain('Invalid format "pug"')
+    expect(existsSync(joinPath(outputDir, 'favicon.ico'))).toBe(false)
+  })
+
+  test('should check an existing set of favicons, exiting non-zero on issues', async () => {
+    const outputDir = getTmpDir('check')
+    expect(createFavicon([joinPath(fixturesPath, 'mead.svg'), outputDir]).status).toBe(0)
+
+    const valid = createFavicon(['check', outputDir])
+    expect(valid.status).toBe(0)
+    expect(valid.stdout).toContain('All 8 favicon files in')
+
+    await rm(joinPath(outputDir, 'favicon.svg'))
+    await writeFile(joinPath(outputDir, 'index.html'), '<head></head>')
+    const invalid = createFavicon(['check', '.', '--html', 'index.html'], {cwd: outputDir})
+    expect(invalid.status).toBe(1)
+    expect(invalid.stdout).toMatchInlineSnapshot(`
+      "Found 4 issues in .:
+        favicon.svg: File is missing
+        index.html: Missing <link rel="icon" href="/favicon.ico">
+        index.html: Missing <link rel="apple-touch-icon" href="/apple-touch-icon.png">
+        index.html: Missing <link rel="manifest" href="/manifest.webmanifest">
+      "
+    `)
+
+    // Sets generated from raster sources have no SVG favicon
+    const noSvg = createFavicon(['check', outputDir, '--no-svg'])
+    expect(noSvg.status).toBe(0)
+    expect(noSvg.stdout).toContain('All 7 favicon files in')
+  })
+
+  test('should be able to include a mask icon and theme color tags', async () => {
+    const outputDir = getTmpDir('mask-icon')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--mask-icon',
+      '#5bbad5',
+      '--theme-color',
+      '#ffffff',
+      '--dark-theme-color',
+      '#000000',
+    ])
+    expect(result.status).toBe(0)
+    expect(result.stdout).toContain(
+      '<link rel="mask-icon" href="/safari-pinned-tab.svg" color="#5bbad5">',
+    )
+    expect(result.stdout).toContain(
+      '<meta name="theme-color" content="#000000" media="(prefers-color-scheme: dark)">',
+    )
+    expect(existsSync(joinPath(outputDir, 'safari-pinned-tab.svg'))).toBe(true)
+
+    const check = createFavicon(['check', outputDir, '--mask-icon', '#5bbad5'])
+    expect(check.stdout).toContain('All 9 favicon files')
+  })
+
+  test('should be able to generate Windows tiles', async () => {
+    const outputDir = getTmpDir('windows-tiles')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--windows-tiles',
+      '--tile-color',
+      '#da532c',
+      '--base-path',
+      '/icons',
+    ])
+    expect(result.status).toBe(0)
+    expect(result.stdout).toContain('<meta name="msapplication-TileColor" content="#da532c">')
+    expect(result.stdout).toContain(
+      '<meta name="msapplication-config" content="/icons/browserconfig.xml">',
+    )
+    expect(await readFile(joinPath(outputDir, 'browserconfig.xml'), 'utf8')).toContain(
+      '<wide310x150logo src="/icons/mstile-310x150.png"/>',
+    )
+
+    const check = createFavicon(['check', outputDir, '--windows-tiles', '--base-path', '/icons'])
+    expect(check.stdout).toContain('All 13 favicon files')
+  })
+
+  test('should be able to flatten and pad the apple touch icon', async () => {
+    const outputDir = getTmpDir('apple-touch-icon')
+    const sourceFile = joinPath(fixturesPath, 'mead.svg')
+    const transparent = createFavicon([sourceFile, outputDir])
+    expect(transparent.stderr).toContain('Source image has transparent areas')
+
+    const result = createFavicon([
+      sourceFile,
+      outputDir,
+      '--overwrite',
+      '--apple-background',
+      '#00ff00',
+      '--apple-padding',
+      '10',
+    ])
+    expect(result.status).toBe(0)
+    expect(result.stderr).not.toContain('Source image has transparent areas')
+
+    const icon = joinPath(outputDir, 'apple-touch-icon.png')
+    expect(await sharp(icon).metadata()).toMatchObject({width: 180, hasAlpha: false})
+    const {data} = await sharp(icon).raw().toBuffer({resolveWithObject: true})
+    expect([...data.subarray(0, 3)]).toEqual([0, 255, 0])
+
+    const invalid = createFavicon([sourceFile, outputDir, '--apple-padding', 'lots'])
+    expect(invalid.status).toBe(1)
+    expect(invalid.stderr).toContain('Apple touch icon padding must be a percentage')
+  })
+
+  test('should be able to render small icons from a separate source', async () => {
+    const outputDir = getTmpDir('small-source')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--small-source',
+      joinPath(fixturesPath, 'glyph.svg'),
+      '--small-max-size',
+      '16',
+    ])
+    expect(result.status).toBe(0)
+
+    const ico = await readFile(joinPath(outputDir, 'favicon.ico'))
+    const frames = await decodeIco(ico)
+    expect([...frames[0]!.data.subarray(0, 4)]).toEqual([0, 0, 255, 255])
+    expect([...frames[1]!.data.subarray(0, 4)]).not.toEqual([0, 0, 255, 255])
+  })
+
+  test('should be able to pick a preset and additional icon sizes', async () => {
+    const outputDir = getTmpDir('preset')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--preset',
+      'minimal',
+      '--extra-sizes',
+      '96,128',
+    ])
+    expect(result.status).toBe(0)
+    expect(result.stdout).toContain(
+      '<link rel="icon" href="/favicon-128.png" type="image/png" sizes="128x128">',
+    )
+    expect((await readdir(outputDir)).sort()).toEqual([
+      'apple-touch-icon.png',
+      'favicon-128.png',
+      'favicon-192.png',
+      'favicon-512.png',
+      'favicon-96.png',
+      'favicon.ico',
+      'favicon.svg',
+      'manifest.webmanifest',
+    ])
+
+    const check = createFavicon([
+      'check',
+      outputDir,
+      '--preset',
+      'minimal',
+      '--extra-sizes',
+      '96,128',
+    ])
+    expect(check.stdout).toContain('All 8 favicon files')
+
+    const invalid = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--preset',
+      'all',
+    ])
+    expect(invalid.status).toBe(1)
+    expect(invalid.stderr).toContain('Invalid preset "all"')
+  })
+
+  test('should be able to draw a badge onto the icons', async () => {
+    const outputDir = getTmpDir('badge')
+    const result = createFavicon([
+      joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      '--badge',
+      'DEV',
+      '--badge-color',
+      '#00ff00',
+    ])
+    expect(result.status).toBe(0)
+
+    const icon = joinPath(outputDir, 'favicon-512.png')
+    const {data, info} = await sharp(icon).raw().toBuffer({resolveWithObject: true})
+    const offset = (info.height - 2) * info.width * info.channels
+    expect([...data.subarray(offset, offset + 3)]).toEqual([0, 255, 0])
+    expect(await readFile(joinPath(outputDir, 'favicon.svg'), 'utf8')).toContain(
+      '<g class="favicon-badge">',
+    )
+
+    const invalid = createFavicon([joinPath(fixturesPath, 'mead.svg'), outputDir, '--badge', ' '])
+    expect(invalid.status).toBe(1)
+    expect(invalid.stderr).toContain('Badge text must be a non-empty string')
+  })
+
+  test('should print a plan without writing anything with --dry-run', async () => {
+    const cwd = getTmpDir('dry-run')
+    await writeFile(joinPath(cwd, 'favicon.ico'), 'existing')
+    const result = createFavicon(
+      [joinPath(fixturesPath, 'mead.svg'), '.', '--dry-run', '--no-manifest', '--no-warn'],
+      {cwd},
+    )
+    expect(result.status).toBe(0)
+    expect(result.stdout).toMatch(/^ACTION  SIZE     BYTES  FILE$/m)
+    expect(result.stdout).toMatch(/^create  512x512  \d+ +favicon-512\.png$/m)
+    expect(result.stdout).toMatch(/^skip    48x48    \d+ +favicon\.ico$/m)
+    expect(result.stdout).toMatch(/^create  100x100  \d+ +favicon\.svg$/m)
+    expect(result.stdout).toContain(
+      'Dry run - 4 to create, 0 to overwrite, 1 to skip (nothing was written)',
+    )
+    expect(await readdir(cwd)).toEqual(['favicon.ico'])
+
+    const watch = createFavicon([joinPath(fixturesPath, 'mead.svg'), '--dry-run', '--watch'], {
+      cwd,
+    })
+    expect(watch.status).toBe(1)
+    expect(watch.stderr).toContain('Only one of --watch and --dry-run can be specified')
+  })
+
+  test('should fail on warnings with --strict and --fail-on', async () => {
+    const cwd = getTmpDir('strict')
+    const sourceFile = joinPath(fixturesPath, 'nonSquare.svg')
+    const strict = createFavicon([sourceFile, '.', '--strict'], {cwd})
+    expect(strict.status).toBe(1)
+    expect(strict.stderr).toContain('(NON_SQUARE_SOURCE warning treated as an error)')
+    expect(await readdir(cwd)).toEqual([])
+
+    const subset = createFavicon([sourceFile, '.', '--fail-on', 'FILE_EXISTS_SKIPPED'], {cwd})
+    expect(subset.status).toBe(0)
+    expect(subset.stderr).toContain('Source image is not square')
+
+    const again = createFavicon([sourceFile, '.', '--fail-on', 'FILE_EXISTS_SKIPPED'], {cwd})
+    expect(again.status).toBe(1)
+    expect(again.stderr).toContain('(FILE_EXISTS_SKIPPED warning treated as an error)')
+  })
+
+  test('should print the result as JSON with --json', async () => {
+    const cwd = getTmpDir('json')
+    const sourceFile = joinPath(fixturesPath, 'mead.png')
+    const result = createFavicon([sourceFile, '.', '--json', '--no-manifest'], {cwd})
+    expect(result.status).toBe(0)
+    expect(result.stderr).toContain('Source image is not an SVG')
+
+    const output = JSON.parse(result.stdout)
+    expect(output).toMatchObject({
+      ok: true,
+      dryRun: false,
+      html: expect.stringContaining('<link rel="icon" href="/favicon.ico" sizes="any">'),
+      warnings: [
+        {code: 'NON_SVG_SOURCE', file: 'favicon.svg'},
+        {code: 'TRANSPARENT_APPLE_TOUCH_ICON', file: 'apple-touch-icon.png'},
+      ],
+      source: {format: 'png', width: 512, height: 512},
+    })
+    expect(output.files[0]).toEqual({
+      name: 'favicon-512.png',
+      path: joinPath(cwd, 'favicon-512.png'),
+      action: 'create',
+      mimeType: 'image/png',
+      width: 512,
+      height: 512,
+      size: (await stat(joinPath(cwd, 'favicon-512.png'))).size,
+    })
+
+    const again = createFavicon([sourceFile, '.', '--json', '--no-manifest', '--no-warn'], {cwd})
+    const actions = JSON.parse(again.stdout).files.map((file: {action: string}) => file.action)
+    expect(actions).toEqual(['skip', 'skip', 'skip', 'skip'])
+  })
+
+  test('should report the archive and injected file separately with --json', async () => {
+    const cwd = getTmpDir('json-archive')
+    await copyFile(joinPath(fixturesPath, 'index.html'), joinPath(cwd, 'index.html'))
+
+    const result = createFavicon(
+      [
+        joinPath(fixturesPath, 'mead.svg'),
+        'out.zip',
+        '--archive',
+        '--inject',
+        'index.html',
+        '--json',
+        '--no-warn',
+      ],
+      {cwd},
+    )
+    expect(result.status).toBe(0)
+
+    const output = JSON.parse(result.stdout)
+    expect(output.archive).toEqual({
+      path: joinPath(cwd, 'out.zip'),
+      action: 'create',
+      size: (await stat(joinPath(cwd, 'out.zip'))).size,
+    })
+    expect(output.injected).toEqual({path: joinPath(cwd, 'index.html'), action: 'overwrite'})
+    expect(output.files[0]).toEqual({
+      name: 'favicon-512.png',
+      mimeType: 'image/png',
+      width: 512,
+      height: 512,
+      size: expect.any(Number),
+    })
+    expect(output.files.some((file: {path?: string}) => file.path)).toBe(false)
+  })
+
+  test('should print errors as JSON with --json', async () => {
+    const cwd = getTmpDir('json-error')
+    const missing = createFavicon(['does-not-exist.png', '--json'], {cwd})
+    expect(missing.status).toBe(1)
+    expect(JSON.parse(missing.stdout)).toMatchObject({
+      ok: false,
+      error: {code: 'SOURCE_UNAVAILABLE', message: expect.stringContaining('Could not read file')},
+      exitCode: 1,
+    })
+
+    const strict = createFavicon([joinPath(fixturesPath, 'nonSquare.svg'), '--json', '--strict'], {
+      cwd,
+    })
+    expect(JSON.parse(strict.stdout)).toMatchObject({
+      ok: false,
+      error: {code: 'WARNING_AS_ERROR', warning: {code: 'NON_SQUARE_SOURCE'}},
+    })
+
+    const invalid = createFavicon(['--json', '--bogus'], {cwd})
+    expect(JSON.parse(invalid.stdout)).toMatchObject({ok: false, error: {code: 'INVALID_OPTION'}})
+
+    await writeFile(joinPath(cwd, 'dark.svg'), '<svg xmlns="http://www.w3.org/2000/svg"')
+    const malformed = createFavicon(
+      [joinPath(fixturesPath, 'mead.svg'), '--dark-source', 'dark.svg', '--json'],
+      {cwd},
+    )
+    expect(JSON.parse(malformed.stdout)).toMatchObject({
+      ok: false,
+      error: {code: 'INVALID_SOURCE', message: expect.stringContaining('dark mode SVG')},
+    })
+  })
+
+  test('should read the source from stdin and write an archive with --archive', async () => {
+    const cwd = getTmpDir('archive')
+    const input = await readFile(joinPath(fixturesPath, 'mead.svg'))
+
+    // Archive to stdout, read with spawnSync directly to keep the output binary
+    const piped = spawnSync(cliPath, ['-', '--archive', '--archive-format', 'tar', '--no-warn'], {
+      cwd,
+      input,
+    })
+    expect(piped.status).toBe(0)
+    expect(piped.stdout.toString('latin1', 257, 262)).toBe('ustar')
+    expect(piped.stdout.toString('utf8', 0, 15)).toBe('favicon-512.png')
+    expect(await readdir(cwd)).toEqual([])
+
+    // Archive to a file, with the tags printed as usual
+    const toFile = createFavicon(['-', 'icons.zip', '--archive', '--no-warn'], {cwd, input})
+    expect(toFile.status).toBe(0)
+    expect(toFile.stdout).toContain('<link rel="icon" href="/favicon.svg" type="image/svg+xml">')
+    expect(await readdir(cwd)).toEqual(['icons.zip'])
+    const zip = await readFile(joinPath(cwd, 'icons.zip'))
+    expect(zip.toString('latin1', 0, 2)).toBe('PK')
+    expect(zip.includes('head.html')).toBe(true)
+
+    const watch = createFavicon(['-', '--watch'], {cwd, input})
+    expect(watch.status).toBe(1)
+    expect(watch.stderr).toContain('The source can not be read from stdin with --watch')
+
+    const empty = createFavicon(['-', '--json'], {cwd, input: ''})
+    expect(empty.status).toBe(1)
+    expect(JSON.parse(empty.stdout)).toEqual({
+      ok: false,
+      error: {code: 'SOURCE_UNAVAILABLE', message: 'No data received on stdin'},
+      exitCode: 1,
+    })
+  })
 })
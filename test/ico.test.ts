@@ -0,0 +1,200 @@
+import {readFile, rm} from 'node:fs/promises'
+import {join as joinPath} from 'node:path'
+import {tmpdir} from 'node:os'
+import {afterAll, describe, expect, test} from 'vitest'
+import sharp from 'sharp'
+import {createFavicon} from '../src/index.js'
+import {decodeIco, encodeIco} from '../src/ico.js'
+
+const testOutputDir = joinPath(tmpdir(), 'favicons-ico-output')
+const fixturesPath = joinPath(import.meta.dirname, 'fixtures')
+
+// 2x2 image: opaque red, half-transparent green, fully transparent blue, opaque white
+const pixels = Buffer.from([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 255, 255, 255, 255])
+
+/**
+ * Builds a single-frame ICO containing a 24-bit bitmap, where transparency
+ * is only expressed through the AND mask (as is common in legacy icons)
+ */
+function getLegacyIco(): Buffer {
+  const header = Buffer.alloc(6)
+  header.writeUInt16LE(1, 2)
+  header.writeUInt16LE(1, 4)
+
+  const bmpHeader = Buffer.alloc(40)
+  bmpHeader.writeUInt32LE(40, 0)
+  bmpHeader.writeInt32LE(2, 4)
+  bmpHeader.writeInt32LE(4, 8)
+  bmpHeader.writeUInt16LE(1, 12)
+  bmpHeader.writeUInt16LE(24, 14)
+
+  // Rows are bottom-up, BGR, padded to 4 bytes
+  const xor = Buffer.from([
+    // Bottom row: blue, white
+    255, 0, 0, 255, 255, 255, 0, 0,
+    // Top row: red, green
+    0, 0, 255, 0, 255, 0, 0, 0,
+  ])
+
+  // Bottom-up, 1 bit per pixel, padded to 4 bytes. Bottom left pixel (blue) is transparent.
+  const mask = Buffer.from([0b10000000, 0, 0, 0, 0, 0, 0, 0])
+
+  const image = Buffer.concat([bmpHeader, xor, mask])
+  const dir = Buffer.alloc(16)
+  dir.writeUInt8(2, 0)
+  dir.writeUInt8(2, 1)
+  dir.writeUInt16LE(1, 4)
+  dir.writeUInt16LE(24, 6)
+  dir.writeUInt32LE(image.length, 8)
+  dir.writeUInt32LE(22, 12)
+
+  return Buffer.concat([header, dir, image])
+}
+
+describe('ico', () => {
+  afterAll(async () => {
+    await rm(testOutputDir, {recursive: true, force: true})
+  })
+
+  test('should round-trip raw frames stored as bitmaps', async () => {
+    const ico = await encodeIco([{width: 2, height: 2, data: pixels}])
+    const frames = await decodeIco(ico)
+
+    expect(frames).toHaveLength(1)
+    expect(frames[0]).toMatchObject({width: 2, height: 2, bitDepth: 32, format: 'bmp'})
+    expect(frames[0]!.data.equals(pixels)).toBe(true)
+  })
+
+  test('should store large frames as PNG by default', async () => {
+    const data = Buffer.alloc(256 * 256 * 4, 255)
+    const ico = await encodeIco([
+      {width: 2, height: 2, data: pixels},
+      {width: 256, height: 256, data},
+    ])
+
+    const frames = await decodeIco(ico)
+    expect(frames.map(({width, height, format}) => ({width, height, format}))).toEqual([
+      {width: 2, height: 2, format: 'bmp'},
+      {width: 256, height: 256, format: 'png'},
+    ])
+    expect(frames[1]!.data.equals(data)).toBe(true)
+  })
+
+  test('should allow explicitly choosing the frame format', async () => {
+    const frames = await decodeIco(
+      await encodeIco([{width: 2, height: 2, data: pixels, format: 'png'}]),
+    )
+
+    expect(frames[0]).toMatchObject({width: 2, height: 2, bitDepth: 32, format: 'png'})
+    expect(frames[0]!.data.equals(pixels)).toBe(true)
+  })
+
+  test('should embed PNG buffers as-is', async () => {
+    const png = await sharp(pixels, {raw: {width: 2, height: 2, channels: 4}})
+      .png()
+      .toBuffer()
+    const ico = await encodeIco([png])
+
+    expect(ico.readUInt16LE(4)).toBe(1)
+    expect(ico.subarray(22).equals(png)).toBe(true)
+
+    const [frame] = await decodeIco(ico)
+    expect(frame).toMatchObject({width: 2, height: 2, format: 'png'})
+    expect(frame!.data.equals(pixels)).toBe(true)
+  })
+
+  test('should decode bitmaps with transparency from the AND mask', async () => {
+    const [frame] = await decodeIco(getLegacyIco())
+
+    expect(frame).toMatchObject({width: 2, height: 2, bitDepth: 24, format: 'bmp'})
+    expect([...frame!.data]).toEqual([
+      255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 0, 255, 255, 255, 255,
+    ])
+  })
+
+  test('should decode the ICO written by `createFavicon`', async () => {
+    const outputDir = joinPath(testOutputDir, 'generated')
+    await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      outputDir,
+      icoSizes: [16, 32, 256],
+      warn: false,
+    })
+
+    const frames = await decodeIco(await readFile(joinPath(outputDir, 'favicon.ico')))
+    expect(frames.map(({width, height, format}) => ({width, height, format}))).toEqual([
+      {width: 16, height: 16, format: 'bmp'},
+      {width: 32, height: 32, format: 'bmp'},
+      {width: 256, height: 256, format: 'png'},
+    ])
+  })
+
+  test('should reject malformed ICO headers', async () => {
+    await expect(() => decodeIco(Buffer.from([0, 0, 1]))).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid ICO file: too short to contain a header]`,
+    )
+
+    await expect(() => decodeIco(Buffer.from([0, 0, 2, 0, 1, 0]))).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid ICO file: unexpected image type 2 (expected 1)]`,
+    )
+
+    await expect(() => decodeIco(Buffer.from([0, 0, 1, 0, 0, 0]))).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid ICO file: contains no images]`,
+    )
+
+    await expect(() => decodeIco(Buffer.from([0, 0, 1, 0, 3, 0]))).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid ICO file: header declares 3 images, but directory is truncated]`,
+    )
+
+    const truncated = getLegacyIco().subarray(0, 40)
+    await expect(() => decodeIco(truncated)).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid ICO file: image 0 data is outside the bounds of the file]`,
+    )
+  })
+
+  test('should reject truncated or corrupt bitmap frames', async () => {
+    // The bitmap header follows the 6 byte ICO header and the 16 byte directory entry
+    const withHeader = (offset: number, value: number, size: 2 | 4) => {
+      const ico = getLegacyIco()
+      ico.writeUIntLE(value, 22 + offset, size)
+      return ico
+    }
+
+    // An 8-bit bitmap without a color count has a 256 color palette, which does not fit
+    await expect(() => decodeIco(withHeader(14, 8, 2))).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid ICO file: image 0 has a truncated color palette]`,
+    )
+
+    // With a single color palette, the pixel data references colors that do not exist
+    const indexed = withHeader(14, 8, 2)
+    indexed.writeUInt32LE(1, 22 + 32)
+    await expect(() => decodeIco(indexed)).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid ICO file: image 0 uses color 255, outside its 1-color palette]`,
+    )
+
+    // Too wide for the pixel data that follows
+    await expect(() => decodeIco(withHeader(4, 8, 4))).rejects.toMatchInlineSnapshot(
+      `[Error: Invalid ICO file: image 0 has truncated pixel data]`,
+    )
+  })
+
+  test('should reject invalid frames when encoding', async () => {
+    await expect(() => encodeIco([])).rejects.toMatchInlineSnapshot(
+      `[Error: At least one frame is required to encode an ICO file]`,
+    )
+
+    await expect(() =>
+      encodeIco([{width: 2, height: 2, data: Buffer.alloc(4)}]),
+    ).rejects.toMatchInlineSnapshot(`[Error: Frame 0 must have 16 bytes of RGBA data (2x2x4)]`)
+
+    await expect(() =>
+      encodeIco([{width: 512, height: 512, data: Buffer.alloc(512 * 512 * 4)}]),
+    ).rejects.toMatchInlineSnapshot(
+      `[Error: Frame 0 has invalid dimensions 512x512 - width and height must be integers between 1 and 256]`,
+    )
+
+    await expect(() => encodeIco([Buffer.from('not a png')])).rejects.toMatchInlineSnapshot(
+      `[Error: Frame 0 is not a valid PNG image]`,
+    )
+  })
+})
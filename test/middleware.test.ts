@@ -0,0 +1,126 @@
+import {type Server, createServer} from 'node:http'
+import type {AddressInfo} from 'node:net'
+import {join as joinPath} from 'node:path'
+import {afterAll, beforeAll, describe, expect, test} from 'vitest'
+import sharp from 'sharp'
+import {createFavicon, faviconMiddleware} from '../src/index.js'
+
+const fixturesPath = joinPath(import.meta.dirname, 'fixtures')
+
+function listen(handler: Parameters<typeof createServer>[1]): Promise<Server> {
+  return new Promise((resolve, reject) => {
+    const server = createServer(handler)
+    server.on('error', reject)
+    server.listen(0, '127.0.0.1', () => resolve(server))
+  })
+}
+
+function getUrl(server: Server, path: string): string {
+  const {port} = server.address() as AddressInfo
+  return `http://127.0.0.1:${port}${path}`
+}
+
+describe('middleware', () => {
+  let server: Server
+  let hashedServer: Server
+
+  beforeAll(async () => {
+    const middleware = faviconMiddleware({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      basePath: '/icons',
+      warn: false,
+    })
+
+    server = await listen((req, res) =>
+      middleware(req, res, () => {
+        res.statusCode = 418
+        res.end('next')
+      }),
+    )
+
+    hashedServer = await listen(
+      faviconMiddleware({
+        sourceFile: joinPath(fixturesPath, 'mead.svg'),
+        hash: true,
+        warn: false,
+      }),
+    )
+  })
+
+  afterAll(async () => {
+    await Promise.all(
+      [server, hashedServer].map(
+        (srv) => new Promise<void>((resolve) => srv.close(() => resolve())),
+      ),
+    )
+  })
+
+  test('should serve favicons with content type, etag and cache headers', async () => {
+    const res = await fetch(getUrl(server, '/icons/favicon.ico'))
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toBe('image/x-icon')
+    expect(res.headers.get('cache-control')).toBe('public, max-age=3600')
+    expect(res.headers.get('etag')).toMatch(/^"[\w-]+"$/)
+
+    const ico = Buffer.from(await res.arrayBuffer())
+    expect(ico.readUInt16LE(2)).toBe(1)
+    expect(ico.readUInt16LE(4)).toBe(3)
+  })
+
+  test('should serve PNGs, SVG and web manifest', async () => {
+    const png = await fetch(getUrl(server, '/icons/favicon-192.png'))
+    expect(png.headers.get('content-type')).toBe('image/png')
+    const {width} = await sharp(Buffer.from(await png.arrayBuffer())).metadata()
+    expect(width).toBe(192)
+
+    const svg = await fetch(getUrl(server, '/icons/favicon.svg?v=1'))
+    expect(svg.headers.get('content-type')).toBe('image/svg+xml')
+    expect(await svg.text()).toMatch(/^<svg/)
+
+    const manifest = await fetch(getUrl(server, '/icons/manifest.webmanifest'))
+    expect(manifest.headers.get('content-type')).toBe('application/manifest+json')
+    const {icons} = await manifest.json()
+    expect(icons[0].src).toBe('/icons/favicon-192.png')
+  })
+
+  test('should answer conditional requests with 304', async () => {
+    const url = getUrl(server, '/icons/apple-touch-icon.png')
+    const etag = (await fetch(url)).headers.get('etag')!
+
+    const cached = await fetch(url, {headers: {'If-None-Match': `"other", W/${etag}`}})
+    expect(cached.status).toBe(304)
+    expect(cached.headers.get('etag')).toBe(etag)
+    expect(await cached.text()).toBe('')
+
+    const stale = await fetch(url, {headers: {'If-None-Match': '"other"'}})
+    expect(stale.status).toBe(200)
+  })
+
+  test('should pass other paths and methods on to the next handler', async () => {
+    for (const path of ['/favicon.ico', '/icons/', '/icons/other.png', '/']) {
+      const res = await fetch(getUrl(server, path))
+      expect(res.status).toBe(418)
+    }
+
+    const post = await fetch(getUrl(server, '/icons/favicon.ico'), {method: 'POST'})
+    expect(post.status).toBe(418)
+  })
+
+  test('should respond with 404 for other paths without a next handler', async () => {
+    const res = await fetch(getUrl(hashedServer, '/favicon.ico'))
+    expect(res.status).toBe(404)
+  })
+
+  test('should cache content-hashed files forever', async () => {
+    const {fileNames} = await createFavicon({
+      sourceFile: joinPath(fixturesPath, 'mead.svg'),
+      hash: true,
+      write: false,
+      warn: false,
+    })
+
+    const res = await fetch(getUrl(hashedServer, `/${fileNames['favicon.ico']}`))
+    expect(res.status).toBe(200)
+    expect(res.headers.get('cache-control')).toBe('public, max-age=31536000, immutable')
+  })
+})
@@ -0,0 +1,121 @@
+import {copyFile, mkdir, readFile, readdir, rm, writeFile} from 'node:fs/promises'
+import {join as joinPath} from 'node:path'
+import {tmpdir} from 'node:os'
+import {afterAll, beforeAll, describe, expect, test} from 'vitest'
+import {build, createServer} from 'vite'
+import sharp from 'sharp'
+import {favicon} from '../src/vite.js'
+
+let tmpDirNum = 0
+const testOutputDir = joinPath(tmpdir(), 'favicons-vite-output')
+const fixturesPath = joinPath(import.meta.dirname, 'fixtures')
+
+async function createProject(stub: string): Promise<string> {
+  const root = joinPath(testOutputDir, `project-${stub}-${++tmpDirNum}`)
+  await mkdir(root, {recursive: true})
+  await copyFile(joinPath(fixturesPath, 'mead.svg'), joinPath(root, 'logo.svg'))
+  await writeFile(
+    joinPath(root, 'index.html'),
+    [
+      '<!doctype html>',
+      '<html>',
+      '  <head>',
+      '    <title>Test</title>',
+      '    <link rel="icon" href="/old.ico">',
+      '  </head>',
+      '  <body></body>',
+      '</html>',
+      '',
+    ].join('\n'),
+  )
+  return root
+}
+
+describe('vite plugin', () => {
+  beforeAll(async () => {
+    await mkdir(testOutputDir, {recursive: true})
+  })
+
+  afterAll(async () => {
+    await rm(testOutputDir, {recursive: true})
+  })
+
+  test('should emit favicons as assets and inject tags into index.html', async () => {
+    const root = await createProject('build')
+    await build({
+      root,
+      base: '/app/',
+      logLevel: 'silent',
+      plugins: [favicon({sourceFile: 'logo.svg', manifest: {name: 'Test'}})],
+    })
+
+    const outDir = joinPath(root, 'dist')
+    expect((await readdir(outDir)).sort()).toEqual([
+      'apple-touch-icon.png',
+      'favicon-192.png',
+      'favicon-512.png',
+      'favicon.ico',
+      'favicon.svg',
+      'index.html',
+      'manifest.webmanifest',
+      'maskable-192.png',
+      'maskable-512.png',
+    ])
+
+    expect(await readFile(joinPath(outDir, 'index.html'), 'utf8')).toMatchInlineSnapshot(`
+      "<!doctype html>
+      <html>
+        <head>
+          <title>Test</title>
+          <link rel="icon" href="/app/favicon.ico" sizes="any">
+          <link rel="icon" href="/app/favicon.svg" type="image/svg+xml">
+          <link rel="apple-touch-icon" href="/app/apple-touch-icon.png">
+          <link rel="manifest" href="/app/manifest.webmanifest">
+        </head>
+        <body></body>
+      </html>
+      "
+    `)
+
+    const manifest = JSON.parse(await readFile(joinPath(outDir, 'manifest.webmanifest'), 'utf8'))
+    expect(manifest.icons[0].src).toBe('/app/favicon-192.png')
+  })
+
+  test('should serve favicons from memory in the dev server', async () => {
+    const root = await createProject('dev')
+    const server = await createServer({
+      root,
+      logLevel: 'silent',
+      server: {port: 0, host: '127.0.0.1', ws: false},
+      plugins: [favicon({sourceFile: 'logo.svg', hash: true})],
+    })
+
+    try {
+      await server.listen()
+      const url = server.resolvedUrls?.local[0]
+      expect(url).toBeDefined()
+
+      const html = await fetch(`${url}`).then((res) => res.text())
+      const href = /<link rel="icon" href="\/(favicon\.[0-9a-f]{7}\.svg)"/.exec(html)?.[1]
+      expect(href).toBeDefined()
+      expect(html).not.toContain('/old.ico')
+
+      const svg = await fetch(`${url}${href}`)
+      expect(svg.status).toBe(200)
+      expect(svg.headers.get('content-type')).toBe('image/svg+xml')
+
+      const appleTouchIcon = /<link rel="apple-touch-icon" href="\/([^"]+)"/.exec(html)?.[1]
+      const png = await fetch(`${url}${appleTouchIcon}`)
+      const {width} = await sharp(Buffer.from(await png.arrayBuffer())).metadata()
+      expect(width).toBe(180)
+
+      // Regenerates when the source file changes
+      await copyFile(joinPath(fixturesPath, 'nonSquare.svg'), joinPath(root, 'logo.svg'))
+      await expect
+        .poll(() => fetch(`${url}`).then((res) => res.text()), {timeout: 10000})
+        .not.toContain(href)
+    } finally {
+      await server.close()
+    }
+  })
+})